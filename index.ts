@@ -1,3 +1,4 @@
+import bundledDiagrams from './diagrams.json';
 
 function assert(b: boolean, message: string = ""): asserts b {
     if (!b) {
@@ -13,7 +14,10 @@ function removeAll(elem: HTMLElement): void {
 
 // We use row-major storage convention in this.
 class Matrix extends Float32Array {
-    constructor(public rows: number, public columns: number, r: Float32Array | null = null) {
+    // The values as they were typed in, before being rounded to float32.
+    public inputs = new Map<number, number>();
+
+    constructor(public rows: number, public columns: number, r: Float32Array | Float64Array | null = null) {
         super(rows * columns);
         if (r !== null) {
             assert(r.length >= this.length);
@@ -46,6 +50,15 @@ class Matrix extends Float32Array {
         this[rowIndex * this.columns + columnIndex] = v;
     }
 
+    public getInput(rowIndex: number, columnIndex: number): number | undefined {
+        return this.inputs.get(rowIndex * this.columns + columnIndex);
+    }
+
+    public setInput(rowIndex: number, columnIndex: number, v: number): void {
+        this.setV(rowIndex, columnIndex, v);
+        this.inputs.set(rowIndex * this.columns + columnIndex, v);
+    }
+
     public getRow(n: number): Matrix {
         assert(n < this.rows);
         const r = new Matrix(1, this.columns);
@@ -87,27 +100,600 @@ class Matrix extends Float32Array {
     }
 
     public mul(b: Matrix): Matrix {
+        const r = new Matrix(this.rows, b.columns);
+        this.mulInto(b, r);
+        return r;
+    }
+
+    // The same product, written over r rather than into a new matrix, so that big ones can be
+    // recomputed as they're edited without allocating anything.
+    public mulInto(b: Matrix, r: Matrix): void {
         // Across times down.
         assert(this.canMultiply(b));
-        const r = new Matrix(this.rows, b.columns);
+        assert(r.rows === this.rows && r.columns === b.columns && r !== this && r !== b);
+        for (let i = 0; i < r.rows; i++) {
+            for (let j = 0; j < r.columns; j++) {
+                let v = 0.0;
+                for (let k = 0; k < this.columns; k++)
+                    v += this[i * this.columns + k] * b[k * b.columns + j];
+                r[i * r.columns + j] = v;
+            }
+        }
+        r.inputs.clear();
+    }
+
+    // This on the left, and b on the right, like [A | I]. Typed-in values stay as they were.
+    public augment(b: Matrix): Matrix {
+        assert(this.rows === b.rows);
+        const r = new Matrix(this.rows, this.columns + b.columns);
+        for (let i = 0; i < r.rows; i++) {
+            for (let j = 0; j < r.columns; j++) {
+                const [m, column] = j < this.columns ? [this, j] : [b, j - this.columns];
+                const input = m.getInput(i, column);
+                if (input !== undefined)
+                    r.setInput(i, j, input);
+                else
+                    r.setV(i, j, m.getV(i, column));
+            }
+        }
+        return r;
+    }
+
+    // The values as typed, where there are any, in double precision.
+    public toFloat64(): Float64Array {
+        return Float64Array.from(this, (v, i) => this.inputs.get(i) ?? v);
+    }
+
+    // Gauss-Jordan elimination to reduced row echelon form, on a copy, recording every elementary
+    // row operation on the way. The largest value left in a column is picked as its pivot, to keep
+    // the rounding down, and anything smaller than the tolerance counts as zero. It's all done in
+    // double precision, and only rounded to float32 at the end.
+    public rowReduce(tolerance: number = this.pivotTolerance()): RowReduction {
+        const m = this.toFloat64();
+        const at = (i: number, j: number) => m[i * this.columns + j];
+        const operations: RowOperation[] = [];
+        const pivots: [number, number][] = [];
+        const missing: { column: number, row: number, step: number }[] = [];
+
+        let row = 0;
+        for (let column = 0; column < this.columns && row < this.rows; column++) {
+            let best = row;
+            for (let i = row + 1; i < this.rows; i++)
+                if (Math.abs(at(i, column)) > Math.abs(at(best, column)))
+                    best = i;
+
+            if (Math.abs(at(best, column)) <= tolerance) {
+                missing.push({ column, row, step: operations.length });
+                continue;
+            }
+
+            const pivot: [number, number] = [row, column];
+            const record = (op: RowOperation) => {
+                applyRowOperation(m, this.columns, op);
+                operations.push(op);
+            };
+            if (best !== row)
+                record({ kind: 'swap', row, other: best, pivot });
+            if (at(row, column) !== 1)
+                record({ kind: 'scale', row, factor: 1 / at(row, column), pivot });
+            for (let i = 0; i < this.rows; i++)
+                if (i !== row && at(i, column) !== 0)
+                    record({ kind: 'add', row: i, other: row, factor: -at(i, column), pivot });
+
+            pivots.push(pivot);
+            row++;
+        }
+
+        return { result: new Matrix(this.rows, this.columns, m), operations, pivots, missing };
+    }
+
+    // Relative to the largest value, so that scaling a matrix doesn't change its rank. [A | I] is
+    // reduced with A's tolerance, since the I half would otherwise set it.
+    public pivotTolerance(): number {
+        return 1e-5 * Math.max(0, ...Array.from(this.toFloat64(), Math.abs));
+    }
+
+    public rank(): number {
+        return this.rowReduce().pivots.length;
+    }
+
+    // Swaps flip the sign, and scaling a row by f scales the determinant by f too.
+    public determinant(): number {
+        assert(this.rows === this.columns);
+        const reduction = this.rowReduce();
+        if (reduction.pivots.length < this.rows)
+            return 0;
+
+        let d = 1;
+        for (const op of reduction.operations) {
+            if (op.kind === 'swap')
+                d = -d;
+            else if (op.kind === 'scale')
+                d /= op.factor;
+        }
+        return d;
+    }
+
+    // Null if there isn't one.
+    public inverse(): Matrix | null {
+        assert(this.rows === this.columns);
+        const identity = new Matrix(this.rows, this.columns);
+        identity.identity();
+        const reduction = this.augment(identity).rowReduce(this.pivotTolerance());
+        if (reduction.pivots.length < this.rows || reduction.pivots[this.rows - 1][1] >= this.columns)
+            return null;
+
+        const r = new Matrix(this.rows, this.columns);
+        for (let i = 0; i < r.rows; i++)
+            for (let j = 0; j < r.columns; j++)
+                r.setV(i, j, reduction.result.getV(i, j + this.columns));
+        return r;
+    }
+}
+
+// The elementary row operations. Each one is done while working on a pivot, at [row, column].
+type RowOperation = (
+    | { kind: 'swap', row: number, other: number }
+    | { kind: 'scale', row: number, factor: number }
+    // Adds factor times the other row to this one.
+    | { kind: 'add', row: number, other: number, factor: number }
+) & { pivot: [number, number] };
+
+// On row-major values, columns to a row. Pivots come out exactly 1, and what they clear exactly 0,
+// whatever the rounding.
+function applyRowOperation(m: Float32Array | Float64Array, columns: number, op: RowOperation): void {
+    const row = op.row * columns, other = op.kind !== 'scale' ? op.other * columns : 0;
+    if (op.kind === 'swap') {
+        for (let j = 0; j < columns; j++)
+            [m[row + j], m[other + j]] = [m[other + j], m[row + j]];
+    } else if (op.kind === 'scale') {
+        for (let j = 0; j < columns; j++)
+            m[row + j] *= op.factor;
+        m[row + op.pivot[1]] = 1;
+    } else {
+        for (let j = 0; j < columns; j++)
+            m[row + j] += op.factor * m[other + j];
+        m[row + op.pivot[1]] = 0;
+    }
+}
+
+interface RowReduction {
+    result: Matrix;
+    operations: RowOperation[];
+    pivots: [number, number][];
+    // Columns without a pivot, along with the row that was waiting for one, and how many
+    // operations had been done by then.
+    missing: { column: number, row: number, step: number }[];
+}
+
+// The shortest decimal that reads back as the same float32.
+function float32ToString(v: number): string {
+    for (let p = 1; p < 9; p++) {
+        const s = `${parseFloat(v.toPrecision(p))}`;
+        if (Math.fround(parseFloat(s)) === v)
+            return s;
+    }
+    return `${v}`;
+}
+
+// The simplest fraction that rounds to the same float32, if there's one with a reasonable denominator.
+function float32ToFraction(v: number, maxDenominator: number = 10000): string | null {
+    if (Number.isInteger(v))
+        return `${v}`;
+
+    // Walk the convergents of the continued fraction.
+    let x = Math.abs(v);
+    let p0 = 0, q0 = 1, p1 = 1, q1 = 0;
+    while (true) {
+        const a = Math.floor(x);
+        const p = a * p1 + p0, q = a * q1 + q0;
+        if (q > maxDenominator)
+            return null;
+        if (Math.fround(p / q) === Math.abs(v))
+            return `${v < 0 ? '-' : ''}${p}/${q}`;
+        p0 = p1; q0 = q1; p1 = p; q1 = q;
+        x = 1 / (x - a);
+    }
+}
+
+// Accepts anything Number() does, as well as fractions like 1/3.
+function parseNumber(s: string): number | null {
+    s = s.trim();
+    const fraction = /^([-+]?\d+)\s*\/\s*(\d+)$/.exec(s);
+    if (fraction !== null) {
+        const d = parseInt(fraction[2], 10);
+        return d !== 0 ? parseInt(fraction[1], 10) / d : null;
+    }
+
+    const v = Number(s);
+    if (s === '' || !Number.isFinite(v))
+        return null;
+    return v;
+}
+
+type Notation =
+    | { kind: 'auto' }
+    | { kind: 'fixed', digits: number }
+    | { kind: 'significant', digits: number }
+    | { kind: 'fraction' };
+
+// Turns matrix values into text. Diagrams hand the same one to all of their displays and explanations.
+class NumberFormatter {
+    constructor(public notation: Notation = { kind: 'auto' }, public markRounding: boolean = false) {
+    }
+
+    public format(v: number, input?: number): string {
+        const s = this.formatValue(v);
+        return this.isRounded(input) ? `≈${s}` : s;
+    }
+
+    // Whether the value that was typed in didn't survive being stored as a float32.
+    public isRounded(input?: number): boolean {
+        return this.markRounding && input !== undefined && Math.fround(input) !== input;
+    }
+
+    private formatValue(v: number): string {
+        const n = this.notation;
+        if (n.kind === 'fixed')
+            return v.toFixed(n.digits);
+        else if (n.kind === 'significant')
+            return `${parseFloat(v.toPrecision(n.digits))}`;
+        else if (n.kind === 'fraction')
+            // Symbolic coefficients are doubles, like the 1/3 from x/3.
+            return float32ToFraction(Math.fround(v)) ?? float32ToString(v);
+        else
+            return float32ToString(v);
+    }
+}
+
+const defaultFormatter = new NumberFormatter();
+
+const subscriptDigits = '₀₁₂₃₄₅₆₇₈₉';
+const superscriptDigits = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+
+function toSubscript(n: number | string): string {
+    return `${n}`.replace(/\d/g, (d) => subscriptDigits[parseInt(d, 10)]);
+}
+
+function toSuperscript(n: number): string {
+    return `${n}`.replace(/\d/g, (d) => superscriptDigits[parseInt(d, 10)]);
+}
+
+interface ExprTerm {
+    coefficient: number;
+    // Sorted, with a symbol repeated for each power.
+    factors: string[];
+}
+
+// Symbols that read as words, like cos θ, get spaces around them when multiplied.
+function isWordSymbol(name: string): boolean {
+    return /\s/.test(name) || /^[A-Za-z]{2,}/.test(name);
+}
+
+function compareFactors(a: string, b: string): number {
+    const wa = isWordSymbol(a), wb = isWordSymbol(b);
+    if (wa !== wb)
+        return wa ? 1 : -1;
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// A polynomial in named symbols like a₁₁ or cos θ. There's no trigonometry in here; cos θ is just
+// a name, which is all that multiplying matrices needs.
+class Expr {
+    private constructor(public terms: ExprTerm[]) {
+    }
+
+    public static constant(v: number): Expr {
+        return new Expr(v === 0 ? [] : [{ coefficient: v, factors: [] }]);
+    }
+
+    public static symbol(name: string): Expr {
+        return new Expr([{ coefficient: 1, factors: [name] }]);
+    }
+
+    // Like terms are combined as they're added, and keep the position of the first one.
+    private static combine(terms: ExprTerm[]): Expr {
+        const r: ExprTerm[] = [];
+        for (const t of terms) {
+            const key = t.factors.join('·');
+            const existing = r.find((u) => u.factors.join('·') === key);
+            if (existing !== undefined)
+                existing.coefficient += t.coefficient;
+            else
+                r.push({ coefficient: t.coefficient, factors: t.factors });
+        }
+        return new Expr(r.filter((t) => t.coefficient !== 0));
+    }
+
+    public add(b: Expr): Expr {
+        return Expr.combine([...this.terms, ...b.terms]);
+    }
+
+    public mul(b: Expr): Expr {
+        const terms: ExprTerm[] = [];
+        for (const s of this.terms)
+            for (const t of b.terms)
+                terms.push({ coefficient: s.coefficient * t.coefficient, factors: [...s.factors, ...t.factors].sort(compareFactors) });
+        return Expr.combine(terms);
+    }
+
+    public isConstant(): boolean {
+        return this.terms.every((t) => t.factors.length === 0);
+    }
+
+    public equals(b: Expr): boolean {
+        return this.add(b.mul(Expr.constant(-1))).terms.length === 0;
+    }
+
+    public constantValue(): number {
+        assert(this.isConstant());
+        return this.terms.length > 0 ? this.terms[0].coefficient : 0;
+    }
+
+    public format(formatter: NumberFormatter = defaultFormatter): string {
+        if (this.terms.length === 0)
+            return formatter.format(0);
+
+        return this.terms.map((t, n) => {
+            const sign = t.coefficient < 0 ? (n === 0 ? '−' : ' − ') : (n === 0 ? '' : ' + ');
+            return `${sign}${Expr.formatTerm(Math.abs(t.coefficient), t.factors, formatter)}`;
+        }).join('');
+    }
+
+    private static formatTerm(coefficient: number, factors: string[], formatter: NumberFormatter): string {
+        const parts: string[] = [];
+        for (let i = 0; i < factors.length; ) {
+            let power = 1;
+            while (factors[i + power] === factors[i])
+                power++;
+            // Powers of functions go on the function: cos² θ.
+            const name = factors[i], space = name.indexOf(' ');
+            if (power === 1)
+                parts.push(name);
+            else if (space >= 0)
+                parts.push(`${name.slice(0, space)}${toSuperscript(power)}${name.slice(space)}`);
+            else
+                parts.push(`${name}${toSuperscript(power)}`);
+            i += power;
+        }
+
+        if (coefficient !== 1 || parts.length === 0) {
+            const c = formatter.format(coefficient);
+            parts.unshift(parts.length > 0 && c.includes('/') ? `(${c})` : c);
+        }
+
+        let s = parts[0];
+        for (let i = 1; i < parts.length; i++) {
+            const spaced = isWordSymbol(parts[i]) || (i > 1 && isWordSymbol(parts[i - 1]));
+            s += spaced ? ` ${parts[i]}` : parts[i];
+        }
+        return s;
+    }
+
+    // Reads back what format() writes, and friendlier spellings: 2*x, x/2, -sin θ, a12 for a₁₂.
+    public static parse(s: string): Expr | null {
+        const tokens = s.match(/\d*\.?\d+(?:e[-+]?\d+)?|[A-Za-zα-ωΑ-Ω][A-Za-z]*[₀-₉\d']*|[-+−*×·]|\S/g);
+        if (tokens === null)
+            return null;
+
+        const isIdentifier = (t: string | undefined) => t !== undefined && /^[A-Za-zα-ωΑ-Ω]/.test(t);
+        const isSign = (t: string | undefined) => t === '+' || t === '-' || t === '−';
+
+        let r = Expr.constant(0);
+        let i = 0;
+        while (i < tokens.length) {
+            let sign = 1;
+            while (isSign(tokens[i]))
+                sign *= tokens[i++] === '+' ? 1 : -1;
+
+            let coefficient = sign;
+            const factors: string[] = [];
+            let numFactors = 0;
+            while (i < tokens.length && !isSign(tokens[i])) {
+                const t = tokens[i++];
+                if (t === '*' || t === '×' || t === '·') {
+                    if (numFactors === 0)
+                        return null;
+                    continue;
+                } else if (t === '/') {
+                    // Only by a number, which divides the coefficient: x/2 is ½x.
+                    const divisor = tokens[i++];
+                    if (numFactors === 0 || divisor === undefined || !/^[\d.]/.test(divisor) || Number(divisor) === 0)
+                        return null;
+                    coefficient /= Number(divisor);
+                    continue;
+                } else if (/^[\d.]/.test(t)) {
+                    coefficient *= Number(t);
+                } else if (isIdentifier(t)) {
+                    // Functions of a symbol, like cos θ, are one symbol.
+                    if (/^(sin|cos|tan)$/.test(t) && isIdentifier(tokens[i]))
+                        factors.push(`${t} ${tokens[i++]}`);
+                    else
+                        factors.push(t.replace(/^([^\d']+)(\d+)/, (_, name, digits) => `${name}${toSubscript(digits)}`));
+                } else {
+                    return null;
+                }
+                numFactors++;
+            }
+
+            if (numFactors === 0 || !Number.isFinite(coefficient))
+                return null;
+            r = r.add(new Expr([{ coefficient, factors: factors.sort(compareFactors) }]));
+        }
+        return r;
+    }
+}
+
+// The operations a matrix needs from its entries.
+interface Ring<T> {
+    zero: T;
+    add(a: T, b: T): T;
+    mul(a: T, b: T): T;
+    format(v: T, formatter: NumberFormatter): string;
+    // Exact text for editing, and back again.
+    toSource(v: T): string;
+    parse(s: string): T | null;
+}
+
+const exprRing: Ring<Expr> = {
+    zero: Expr.constant(0),
+    add: (a, b) => a.add(b),
+    mul: (a, b) => a.mul(b),
+    format: (v, formatter) => v.format(formatter),
+    toSource: (v) => v.format(),
+    parse: (s) => Expr.parse(s),
+};
+
+// A matrix of anything in a Ring, stored row-major like Matrix. Matrix itself stays a Float32Array,
+// since that's what everything about storage and layout cares about.
+class GenericMatrix<T> {
+    public values: T[] = [];
+
+    constructor(public ring: Ring<T>, public rows: number, public columns: number, values: T[] | null = null) {
+        for (let i = 0; i < rows * columns; i++)
+            this.values.push(values !== null ? values[i] : ring.zero);
+    }
+
+    public getV(rowIndex: number, columnIndex: number): T {
+        return this.values[rowIndex * this.columns + columnIndex];
+    }
+
+    public setV(rowIndex: number, columnIndex: number, v: T): void {
+        this.values[rowIndex * this.columns + columnIndex] = v;
+    }
+
+    public transpose(): GenericMatrix<T> {
+        const r = new GenericMatrix(this.ring, this.columns, this.rows);
         for (let i = 0; i < r.rows; i++)
             for (let j = 0; j < r.columns; j++)
-                r.setV(i, j, this.getRow(i).dot(b.getColumn(j)));
+                r.setV(i, j, this.getV(j, i));
+        return r;
+    }
+
+    public canMultiply(b: GenericMatrix<T>): boolean {
+        return this.columns === b.rows;
+    }
+
+    public mul(b: GenericMatrix<T>): GenericMatrix<T> {
+        // Across times down.
+        assert(this.canMultiply(b));
+        const r = new GenericMatrix(this.ring, this.rows, b.columns);
+        for (let i = 0; i < r.rows; i++) {
+            for (let j = 0; j < r.columns; j++) {
+                let v = this.ring.zero;
+                for (let k = 0; k < this.columns; k++)
+                    v = this.ring.add(v, this.ring.mul(this.getV(i, k), b.getV(k, j)));
+                r.setV(i, j, v);
+            }
+        }
         return r;
     }
 }
 
+type SymbolicMatrix = GenericMatrix<Expr>;
+type AnyMatrix = Matrix | SymbolicMatrix;
+
+function toSymbolic(m: AnyMatrix): SymbolicMatrix {
+    if (!(m instanceof Matrix))
+        return m;
+
+    const r = new GenericMatrix(exprRing, m.rows, m.columns);
+    for (let i = 0; i < m.length; i++)
+        r.values[i] = Expr.constant(m.getInput(Math.floor(i / m.columns), i % m.columns) ?? m[i]);
+    return r;
+}
+
+// Numbers stay numbers; anything involving symbols is done symbolically.
+function multiply(a: AnyMatrix, b: AnyMatrix): AnyMatrix {
+    if (a instanceof Matrix && b instanceof Matrix)
+        return a.mul(b);
+    return toSymbolic(a).mul(toSymbolic(b));
+}
+
+function copyMatrix(dst: AnyMatrix, src: AnyMatrix): void {
+    if (dst instanceof Matrix)
+        dst.set(src as Matrix);
+    else
+        dst.values = (src as SymbolicMatrix).values.slice();
+}
+
+// Whatever still fits keeps its value, as typed; anything new starts at zero.
+function resizeMatrix(m: AnyMatrix, rows: number, columns: number): AnyMatrix {
+    const r = m instanceof Matrix ? new Matrix(rows, columns) : new GenericMatrix(m.ring, rows, columns);
+    for (let i = 0; i < Math.min(rows, m.rows); i++) {
+        for (let j = 0; j < Math.min(columns, m.columns); j++) {
+            if (m instanceof Matrix) {
+                const input = m.getInput(i, j);
+                if (input !== undefined)
+                    (r as Matrix).setInput(i, j, input);
+                else
+                    (r as Matrix).setV(i, j, m.getV(i, j));
+            } else {
+                (r as SymbolicMatrix).setV(i, j, m.getV(i, j));
+            }
+        }
+    }
+    return r;
+}
+
+// The exact text for an entry, not however it happens to be formatted.
+function entrySource(m: AnyMatrix, i: number, j: number): string {
+    if (!(m instanceof Matrix))
+        return m.ring.toSource(m.getV(i, j));
+    const input = m.getInput(i, j);
+    return input !== undefined ? `${input}` : float32ToString(m.getV(i, j));
+}
+
+// The entries at the given rows and columns, in that order, as they were typed in.
+function subMatrix(m: AnyMatrix, rows: number[], columns: number[]): AnyMatrix {
+    if (!(m instanceof Matrix))
+        return new GenericMatrix(m.ring, rows.length, columns.length, rows.flatMap((i) => columns.map((j) => m.getV(i, j))));
+
+    const r = new Matrix(rows.length, columns.length);
+    rows.forEach((i, ri) => {
+        columns.forEach((j, rj) => {
+            const input = m.getInput(i, j);
+            if (input !== undefined)
+                r.setInput(ri, rj, input);
+            else
+                r.setV(ri, rj, m.getV(i, j));
+        });
+    });
+    return r;
+}
+
+function allIndices(n: number): number[] {
+    return Array.from({ length: n }, (_, i) => i);
+}
+
+// Operands of a larger expression get parenthesized if they're sums.
+function formatEntry(m: AnyMatrix, i: number, j: number, formatter: NumberFormatter, operand: boolean = false): string {
+    if (m instanceof Matrix)
+        return formatter.format(m.getV(i, j), m.getInput(i, j));
+
+    const s = m.ring.format(m.getV(i, j), formatter);
+    return operand && /\S [+−] /.test(s) ? `(${s})` : s;
+}
+
 class MatrixDisplay {
     public elem: HTMLElement;
     public highlightRow: HTMLElement;
     public highlightColumn: HTMLElement;
     public highlightCell: HTMLElement;
     public cells: HTMLElement[] = [];
-    public onmousehover: ((i: number, j: number) => void) | null = null;
-
-    constructor(private matrix: Matrix) {
+    public onhover: ((i: number, j: number) => void) | null = null;
+    public onclicked: ((i: number, j: number) => void) | null = null;
+    public onedit: ((i: number, j: number) => void) | null = null;
+    public editable = false;
+    private focusI = 0;
+    private focusJ = 0;
+    private tileLines: HTMLElement[] = [];
+
+    constructor(private matrix: AnyMatrix, private formatter: NumberFormatter = defaultFormatter) {
         this.elem = document.createElement('div');
         this.elem.style.display = 'grid';
+        this.elem.setAttribute('role', 'grid');
+        this.setName(null);
 
         this.elem.style.gridTemplateColumns = `1em repeat(${this.matrix.columns}, 1fr) 1em`;
 
@@ -127,6 +713,12 @@ class MatrixDisplay {
         this.elem.appendChild(leftSquareBracket);
 
         for (let i = 0; i < this.matrix.rows; i++) {
+            // Rows only exist for the benefit of screen readers; the cells are laid out by the outer grid.
+            const rowElem = document.createElement('div');
+            rowElem.setAttribute('role', 'row');
+            rowElem.style.display = 'contents';
+            this.elem.appendChild(rowElem);
+
             for (let j = 0; j < this.matrix.columns; j++) {
                 const cell = document.createElement('div');
                 const row = i + 1, col = j + 2;
@@ -135,31 +727,164 @@ class MatrixDisplay {
                 cell.style.placeSelf = 'stretch';
                 cell.style.placeContent = 'center';
                 cell.style.zIndex = '100';
-                cell.onmouseover = () => { this.mouseHovered(i, j); };
-                cell.onmouseout = () => {this.mouseHovered(-1, -1); }
-                cell.textContent = `${this.matrix.getV(i, j)}`;
+                cell.style.touchAction = 'manipulation';
+                cell.onpointerover = () => { this.hovered(i, j); };
+                cell.onpointerout = () => { this.hovered(-1, -1); };
+                // The second click of a double-click is for editing, and would undo the first.
+                cell.onclick = (e) => { if (e.detail <= 1) this.clicked(i, j); };
+                cell.ondblclick = () => { this.beginEdit(i, j); };
+                cell.onfocus = () => { this.focused(i, j); };
+                cell.onkeydown = (e) => { this.keyDown(e, i, j); };
+                cell.setAttribute('role', 'gridcell');
+                cell.tabIndex = (i === 0 && j === 0) ? 0 : -1;
                 this.cells.push(cell);
-                this.elem.appendChild(cell);
+                this.updateCell(i, j);
+                rowElem.appendChild(cell);
             }
         }
 
+        this.elem.addEventListener('focusout', (e) => {
+            if (!this.elem.contains(e.relatedTarget as Node | null))
+                this.hovered(-1, -1);
+        });
+
         // The first and last column are for the large brackets.
         const rightSquareBracket = this.bracket('right-square-bracket');
         rightSquareBracket.style.gridArea = `1 / ${m.columns + 2} / ${m.rows + 1} / ${m.columns + 2}`;
         this.elem.appendChild(rightSquareBracket);
     }
 
+    public setName(name: string | null): void {
+        const size = `${this.matrix.rows} by ${this.matrix.columns} matrix`;
+        this.elem.setAttribute('aria-label', name !== null ? `${name}, ${size}` : size);
+    }
+
     public update(): void {
-        for (let i = 0; i < this.matrix.rows; i++) {
-            for (let j = 0; j < this.matrix.columns; j++) {
-                const cell = this.getCell(i, j);
-                cell.textContent = `${this.matrix.getV(i, j)}`;
+        this.iterCells((i, j) => this.updateCell(i, j));
+    }
+
+    private updateCell(i: number, j: number): void {
+        const cell = this.getCell(i, j);
+        cell.textContent = formatEntry(this.matrix, i, j, this.formatter);
+
+        const m = this.matrix;
+        if (m instanceof Matrix && this.formatter.isRounded(m.getInput(i, j)))
+            cell.title = `${m.getInput(i, j)} is stored as ${m.getV(i, j)}`;
+        else
+            cell.title = '';
+    }
+
+    private beginEdit(i: number, j: number): void {
+        if (!this.editable)
+            return;
+
+        const cell = this.getCell(i, j);
+        if (cell.isContentEditable)
+            return;
+
+        const original = entrySource(this.matrix, i, j);
+        cell.textContent = original;
+        cell.contentEditable = 'true';
+        cell.style.outline = '2px solid var(--foreground)';
+        this.moveFocus(i, j);
+        window.getSelection()!.selectAllChildren(cell);
+
+        let done = false;
+        const finish = (commit: boolean) => {
+            if (done)
+                return;
+            done = true;
+
+            cell.contentEditable = 'false';
+            cell.style.outline = '';
+            cell.onblur = null;
+            cell.onkeydown = (e) => { this.keyDown(e, i, j); };
+
+            if (commit && cell.textContent !== original && !this.commitEdit(i, j, cell.textContent!))
+                this.flashInvalid(cell);
+
+            this.updateCell(i, j);
+        };
+
+        cell.onkeydown = (e) => {
+            if (e.key === 'Enter') {
+                e.preventDefault();
+                finish(true);
+            } else if (e.key === 'Escape') {
+                // Keep the diagram from also treating this as an unpin.
+                e.preventDefault();
+                finish(false);
             }
+        };
+        cell.onblur = () => { finish(true); };
+    }
+
+    private focused(i: number, j: number): void {
+        this.getCell(this.focusI, this.focusJ).tabIndex = -1;
+        this.focusI = i;
+        this.focusJ = j;
+        this.getCell(i, j).tabIndex = 0;
+        this.hovered(i, j);
+    }
+
+    private moveFocus(i: number, j: number): void {
+        i = Math.min(Math.max(i, 0), this.matrix.rows - 1);
+        j = Math.min(Math.max(j, 0), this.matrix.columns - 1);
+        this.getCell(i, j).focus();
+    }
+
+    private keyDown(e: KeyboardEvent, i: number, j: number): void {
+        if (e.key === 'ArrowUp')
+            this.moveFocus(i - 1, j);
+        else if (e.key === 'ArrowDown')
+            this.moveFocus(i + 1, j);
+        else if (e.key === 'ArrowLeft')
+            this.moveFocus(i, j - 1);
+        else if (e.key === 'ArrowRight')
+            this.moveFocus(i, j + 1);
+        else if (e.key === 'Home')
+            this.moveFocus(i, 0);
+        else if (e.key === 'End')
+            this.moveFocus(i, this.matrix.columns - 1);
+        else if ((e.key === 'Enter' || e.key === 'F2') && this.editable)
+            this.beginEdit(i, j);
+        else if (e.key === ' ')
+            this.clicked(i, j);
+        else
+            return;
+
+        e.preventDefault();
+    }
+
+    private commitEdit(i: number, j: number, text: string): boolean {
+        const m = this.matrix;
+        if (m instanceof Matrix) {
+            const v = parseNumber(text);
+            if (v === null)
+                return false;
+            if (v === m.getInput(i, j))
+                return true;
+            m.setInput(i, j, v);
+        } else {
+            const v = m.ring.parse(text);
+            if (v === null)
+                return false;
+            m.setV(i, j, v);
         }
+
+        if (this.onedit !== null)
+            this.onedit(i, j);
+        return true;
+    }
+
+    private flashInvalid(cell: HTMLElement): void {
+        cell.style.color = 'var(--error)';
+        setTimeout(() => { cell.style.color = ''; }, 600);
     }
 
     private highlight(): HTMLElement {
         const elem = document.createElement('div');
+        elem.setAttribute('aria-hidden', 'true');
         elem.style.display = 'none';
         elem.style.borderRadius = '0.6em';
         return elem;
@@ -168,7 +893,8 @@ class MatrixDisplay {
     private bracket(shape: 'left-square-bracket' | 'right-square-bracket'): HTMLElement {
         // left square bracket right square bracket left square bracket right square bracket left square bracket right square bracket
         const elem = document.createElement('div');
-        elem.style.border = '4px solid white';
+        elem.setAttribute('aria-hidden', 'true');
+        elem.style.border = '4px solid var(--foreground)';
         if (shape === 'left-square-bracket')
             elem.style.borderRight = 'none';
         else if (shape === 'right-square-bracket')
@@ -176,9 +902,14 @@ class MatrixDisplay {
         return elem;
     }
 
-    private mouseHovered(i: number, j: number): void {
-        if (this.onmousehover !== null)
-            this.onmousehover(i, j);
+    private hovered(i: number, j: number): void {
+        if (this.onhover !== null)
+            this.onhover(i, j);
+    }
+
+    private clicked(i: number, j: number): void {
+        if (this.onclicked !== null)
+            this.onclicked(i, j);
     }
 
     public getCell(i: number, j: number): HTMLElement {
@@ -194,9 +925,9 @@ class MatrixDisplay {
     private setCellSelected(i: number, j: number, v: boolean): void {
         const cell = this.getCell(i, j);
         if (v) {
-            cell.style.webkitTextStroke = `2px black`;
+            cell.style.webkitTextStroke = `2px var(--text-outline)`;
             cell.style.paintOrder = `stroke fill`;
-            cell.style.textShadow = `0 0 10px black`;
+            cell.style.textShadow = `0 0 10px var(--text-outline)`;
         } else {
             cell.style.webkitTextStroke = '0';
         }
@@ -237,58 +968,861 @@ class MatrixDisplay {
         this.setHighlight(this.highlightCell, rowIndex >= 0 ? 'cell' : null, color, rowIndex, columnIndex);
         this.iterCells((i, j) => this.setCellSelected(i, j, i === rowIndex && j === columnIndex));
     }
-}
 
-interface Base {
-    elem: HTMLElement;
-}
+    // A second row at once, like one being swapped with the first. This borrows the column highlight.
+    public setSecondRowHighlight(rowIndex: number, color: string): void {
+        this.setHighlight(this.highlightColumn, rowIndex >= 0 ? 'row' : null, color, rowIndex);
+    }
 
-function textDiv(s: string): HTMLElement {
-    const div = document.createElement('div');
-    div.textContent = s;
-    div.style.placeSelf = 'center';
-    div.style.fontSize = '150%';
-    return div;
-}
+    // A line down the left of a column, to split an augmented matrix like [A | I].
+    public setDivider(columnIndex: number): void {
+        const divider = document.createElement('div');
+        divider.setAttribute('aria-hidden', 'true');
+        divider.style.gridArea = `1 / ${columnIndex + 2} / ${this.matrix.rows + 1} / ${columnIndex + 2}`;
+        divider.style.borderLeft = '2px solid var(--muted)';
+        divider.style.pointerEvents = 'none';
+        this.elem.appendChild(divider);
+    }
 
-const highlightRow    = `#cc2222a0`;
-const highlightColumn = `#2222cca0`;
-const highlightCell   = `#22cc22a0`;
+    // Crosses out a row and a column, like the ones left out of a minor. The cell where they meet stays
+    // as it is, since that's usually the one everything else is being crossed out around.
+    public setStruckOut(rowIndex: number, columnIndex: number): void {
+        this.iterCells((i, j) => {
+            const cell = this.getCell(i, j);
+            const struck = (i === rowIndex) !== (j === columnIndex);
+            cell.style.textDecoration = struck ? 'line-through' : '';
+            cell.style.opacity = struck ? '0.4' : '';
+        });
+    }
 
-class MatrixMulDiagram {
-    public elem: HTMLElement;
-    private displayA: MatrixDisplay;
-    private displayB: MatrixDisplay;
-    private displayC: MatrixDisplay;
-    private explanationText: HTMLElement;
+    // Cells that aren't there yet, like the parts of a result still to be worked out.
+    public setFaded(faded: (i: number, j: number) => boolean): void {
+        this.iterCells((i, j) => { this.getCell(i, j).style.opacity = faded(i, j) ? '0.3' : ''; });
+    }
 
-    constructor(a: Matrix, b: Matrix) {
-        const c = a.mul(b);
+    // Dashed lines between tiles of the given size, for blocked algorithms. Tiles at the end can be smaller.
+    public setTiles(rowsPerTile: number, columnsPerTile: number): void {
+        for (const line of this.tileLines)
+            line.remove();
+        this.tileLines = [];
 
-        this.elem = document.createElement('div');
-        this.elem.style.display = 'flex';
-        this.elem.style.margin = `2em`;
-        this.elem.style.gap = `2em`;
-        this.elem.style.flexDirection = 'column';
+        const m = this.matrix;
+        const tileLine = (gridArea: string, side: 'borderTop' | 'borderLeft') => {
+            const line = document.createElement('div');
+            line.setAttribute('aria-hidden', 'true');
+            line.style.gridArea = gridArea;
+            line.style[side] = '2px dashed var(--foreground)';
+            line.style.pointerEvents = 'none';
+            this.elem.appendChild(line);
+            this.tileLines.push(line);
+        };
+        for (let i = rowsPerTile; i < m.rows; i += rowsPerTile)
+            tileLine(`${i + 1} / 2 / ${i + 1} / ${m.columns + 2}`, 'borderTop');
+        for (let j = columnsPerTile; j < m.columns; j += columnsPerTile)
+            tileLine(`1 / ${j + 2} / ${m.rows + 1} / ${j + 2}`, 'borderLeft');
+    }
 
-        const topRow = document.createElement('div');
-        topRow.style.display = `flex`;
-        topRow.style.gap = `1em`;
-        topRow.style.flexGrow = `1`;
+    // A block of cells, from the first row and column up to but not including the last. This
+    // borrows the cell highlight.
+    public setRangeHighlight(rowStart: number, columnStart: number, rowEnd: number, columnEnd: number, color: string): void {
+        this.setHighlight(this.highlightCell, rowStart >= 0 ? 'cell' : null, color, rowStart, columnStart);
+        if (rowStart >= 0)
+            this.highlightCell.style.gridArea = `${rowStart + 1} / ${columnStart + 2} / ${rowEnd + 1} / ${columnEnd + 2}`;
+    }
+}
 
-        this.displayA = new MatrixDisplay(a);
-        this.displayA.elem.style.flexGrow = `1`;
-        topRow.appendChild(this.displayA.elem);
+// How a matrix is drawn: as a grid of numbers, or as a heatmap when it's too big to read that way.
+type DisplayMode = 'grid' | 'heatmap';
 
-        topRow.appendChild(textDiv(`×`));
+interface HeatmapHighlight {
+    mode: 'row' | 'column' | 'cell' | null;
+    i: number;
+    j: number;
+}
 
-        this.displayB = new MatrixDisplay(b);
-        this.displayB.elem.style.flexGrow = `1`;
-        topRow.appendChild(this.displayB.elem);
+// A numeric matrix drawn as a heatmap, one cell per value, shaded by a scale that's shown
+// underneath. The wheel (or + and −) zooms, dragging pans, and hovering shows a value. It
+// highlights, hovers and edits the same way MatrixDisplay does, so diagrams can use either.
+class MatrixHeatmap {
+    public elem: HTMLElement;
+    public highlightRow: HTMLElement;
+    public highlightColumn: HTMLElement;
+    public highlightCell: HTMLElement;
+    public onhover: ((i: number, j: number) => void) | null = null;
+    public onclicked: ((i: number, j: number) => void) | null = null;
+    public onedit: ((i: number, j: number) => void) | null = null;
+    public editable = false;
+    private view: HTMLElement;
+    private canvas: HTMLCanvasElement;
+    private tooltip: HTMLElement;
+    private scaleBar: HTMLElement;
+    private lowText: HTMLElement;
+    private highText: HTMLElement;
+    private resetButton: HTMLButtonElement;
+    // The matrix at one pixel per value, which gets scaled up onto the canvas.
+    private source: HTMLCanvasElement;
+    private pixels: ImageData | null = null;
+    private highlights = new Map<HTMLElement, HeatmapHighlight>();
+    // Zoom is relative to the whole matrix fitting, and the pan is the row and column at the top left.
+    private zoom = 1;
+    private panI = 0;
+    private panJ = 0;
+    private drag: { x: number, y: number, panI: number, panJ: number, moved: boolean } | null = null;
+    private resizeObserver: ResizeObserver;
+    private hoverI = -1;
+    private hoverJ = -1;
+    private focusI = 0;
+    private focusJ = 0;
+
+    constructor(private matrix: Matrix, private formatter: NumberFormatter = defaultFormatter) {
+        const m = this.matrix;
 
-        topRow.appendChild(textDiv(`=`));
+        this.elem = document.createElement('div');
+        this.elem.style.display = 'flex';
+        this.elem.style.flexDirection = 'column';
+        this.elem.style.justifyContent = 'center';
+        this.elem.style.gap = '0.3em';
+        this.elem.style.flexBasis = '0';
+        this.elem.style.minWidth = '6em';
+
+        // Cells stretch to keep long, thin matrices from disappearing into a line.
+        this.view = document.createElement('div');
+        this.view.style.position = 'relative';
+        this.view.style.overflow = 'hidden';
+        this.view.style.aspectRatio = `${Math.min(Math.max(m.columns / m.rows, 1 / 4), 4)}`;
+        this.view.style.border = '2px solid var(--foreground)';
+        this.view.style.touchAction = 'none';
+        this.view.style.cursor = 'crosshair';
+        this.view.tabIndex = 0;
+        this.view.setAttribute('role', 'img');
+        this.view.setAttribute('aria-roledescription', 'heatmap');
+        this.elem.appendChild(this.view);
+        this.setName(null);
+
+        this.canvas = document.createElement('canvas');
+        this.canvas.style.position = 'absolute';
+        this.canvas.style.width = '100%';
+        this.canvas.style.height = '100%';
+        this.view.appendChild(this.canvas);
+
+        this.source = document.createElement('canvas');
+        this.source.width = m.columns;
+        this.source.height = m.rows;
 
-        this.displayC = new MatrixDisplay(c);
+        this.highlightRow = this.highlight();
+        this.highlightColumn = this.highlight();
+        this.highlightCell = this.highlight();
+
+        this.tooltip = document.createElement('div');
+        this.tooltip.style.position = 'absolute';
+        this.tooltip.style.display = 'none';
+        this.tooltip.style.pointerEvents = 'none';
+        this.tooltip.style.zIndex = '200';
+        this.tooltip.style.whiteSpace = 'nowrap';
+        this.tooltip.style.fontSize = '60%';
+        this.tooltip.style.padding = '0.2em 0.5em';
+        this.tooltip.style.borderRadius = '0.4em';
+        this.tooltip.style.backgroundColor = 'var(--background)';
+        this.tooltip.style.border = '1px solid var(--muted)';
+        this.tooltip.setAttribute('aria-live', 'polite');
+        this.view.appendChild(this.tooltip);
+
+        const legend = document.createElement('div');
+        legend.style.display = 'flex';
+        legend.style.alignItems = 'center';
+        legend.style.gap = '0.5em';
+        legend.style.fontSize = '60%';
+        this.lowText = document.createElement('span');
+        legend.appendChild(this.lowText);
+        this.scaleBar = document.createElement('div');
+        this.scaleBar.style.flexGrow = '1';
+        this.scaleBar.style.height = '0.8em';
+        this.scaleBar.style.border = '1px solid var(--muted)';
+        this.scaleBar.setAttribute('aria-hidden', 'true');
+        legend.appendChild(this.scaleBar);
+        this.highText = document.createElement('span');
+        legend.appendChild(this.highText);
+        const zoomOut = button('−', () => this.zoomBy(1 / 2));
+        zoomOut.setAttribute('aria-label', 'Zoom out');
+        legend.appendChild(zoomOut);
+        const zoomIn = button('+', () => this.zoomBy(2));
+        zoomIn.setAttribute('aria-label', 'Zoom in');
+        legend.appendChild(zoomIn);
+        this.resetButton = button('Fit', () => { this.zoom = 1; this.panTo(0, 0); });
+        this.resetButton.setAttribute('aria-label', 'Zoom to fit');
+        legend.appendChild(this.resetButton);
+        this.elem.appendChild(legend);
+
+        this.view.addEventListener('wheel', (e) => {
+            e.preventDefault();
+            const [x, y] = this.pointerPosition(e);
+            this.zoomAt(x, y, Math.exp(-e.deltaY * 0.002));
+        }, { passive: false });
+        this.view.onpointerdown = (e) => {
+            if (e.button !== 0 || e.target !== this.canvas)
+                return;
+            const [x, y] = this.pointerPosition(e);
+            this.drag = { x, y, panI: this.panI, panJ: this.panJ, moved: false };
+            this.view.setPointerCapture(e.pointerId);
+        };
+        this.view.onpointermove = (e) => {
+            const [x, y] = this.pointerPosition(e);
+            const drag = this.drag;
+            if (drag !== null) {
+                // A little wobble is still a click.
+                drag.moved ||= Math.abs(x - drag.x) + Math.abs(y - drag.y) > 4;
+                if (drag.moved) {
+                    const [cw, ch] = this.cellSize();
+                    this.panTo(drag.panI - (y - drag.y) / ch, drag.panJ - (x - drag.x) / cw);
+                    return;
+                }
+            }
+            const [i, j] = this.cellAt(x, y);
+            this.hovered(i, j);
+        };
+        this.view.onpointerup = (e) => {
+            if (this.drag !== null && !this.drag.moved)
+                this.clicked(...this.cellAt(...this.pointerPosition(e)));
+            this.drag = null;
+        };
+        this.view.onpointerleave = () => {
+            if (this.drag === null)
+                this.hovered(-1, -1);
+        };
+        this.view.ondblclick = (e) => {
+            const [i, j] = this.cellAt(...this.pointerPosition(e));
+            this.beginEdit(i, j);
+        };
+        // Pressing on the canvas focuses it too, but then it's the pointer that's hovering.
+        this.view.onfocus = () => {
+            if (this.drag === null)
+                this.hovered(this.focusI, this.focusJ);
+        };
+        this.view.onblur = () => { this.hovered(-1, -1); };
+        this.view.onkeydown = (e) => { this.keyDown(e); };
+
+        // Taking it off the page counts as a resize too, and means it's been swapped out for
+        // something else, so there's nothing left to redraw.
+        this.resizeObserver = new ResizeObserver(() => {
+            if (!this.view.isConnected) {
+                this.resizeObserver.disconnect();
+                return;
+            }
+            this.redraw();
+        });
+        this.resizeObserver.observe(this.view);
+        this.update();
+    }
+
+    public setName(name: string | null): void {
+        const size = `${this.matrix.rows} by ${this.matrix.columns} matrix, shown as a heatmap`;
+        this.view.setAttribute('aria-label', name !== null ? `${name}, ${size}` : size);
+    }
+
+    // Reshades every cell, for new values or a new theme.
+    public update(): void {
+        const m = this.matrix;
+        let low = 0, high = 0;
+        for (let n = 0; n < m.length; n++) {
+            if (Number.isFinite(m[n])) {
+                low = Math.min(low, m[n]);
+                high = Math.max(high, m[n]);
+            }
+        }
+
+        const ctx = this.source.getContext('2d');
+        if (ctx !== null) {
+            if (this.pixels === null)
+                this.pixels = ctx.createImageData(m.columns, m.rows);
+            const background = colorComponents(themeColor('--background'));
+            const lowColor = colorComponents(themeColor('--scale-low'));
+            const highColor = colorComponents(themeColor('--scale-high'));
+            const data = this.pixels.data;
+            for (let n = 0; n < m.length; n++) {
+                const v = m[n];
+                // NaN stays at the background, like zero.
+                const t = v < 0 ? Math.min(v / low, 1) : v > 0 ? Math.min(v / high, 1) : 0;
+                const color = v < 0 ? lowColor : highColor;
+                for (let c = 0; c < 3; c++)
+                    data[n * 4 + c] = background[c] + (color[c] - background[c]) * t;
+                data[n * 4 + 3] = 255;
+            }
+            ctx.putImageData(this.pixels, 0, 0);
+        }
+
+        this.lowText.textContent = this.formatter.format(low);
+        this.highText.textContent = this.formatter.format(high);
+        const zero = high > low ? -low / (high - low) * 100 : 0;
+        const stops = [...(low < 0 ? ['var(--scale-low)'] : []), `var(--background) ${zero}%`, ...(high > 0 ? ['var(--scale-high)'] : [])];
+        this.scaleBar.style.background = stops.length > 1 ? `linear-gradient(to right, ${stops.join(', ')})` : 'var(--background)';
+
+        this.redraw();
+        if (this.hoverI >= 0)
+            this.showTooltip(this.hoverI, this.hoverJ);
+    }
+
+    private redraw(): void {
+        this.resetButton.disabled = this.zoom === 1;
+        this.placeHighlights();
+
+        const width = this.canvas.clientWidth, height = this.canvas.clientHeight;
+        const ctx = width > 0 && height > 0 ? this.canvas.getContext('2d') : null;
+        if (ctx === null)
+            return;
+
+        const pixelRatio = window.devicePixelRatio;
+        this.canvas.width = Math.round(width * pixelRatio);
+        this.canvas.height = Math.round(height * pixelRatio);
+        ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+        ctx.imageSmoothingEnabled = false;
+
+        const m = this.matrix;
+        const [cw, ch] = this.cellSize();
+        ctx.drawImage(this.source, -this.panJ * cw, -this.panI * ch, m.columns * cw, m.rows * ch);
+
+        // Once cells are big enough to make out, lines between them help with counting.
+        if (Math.min(cw, ch) >= 8) {
+            ctx.beginPath();
+            for (let i = Math.ceil(this.panI); i <= m.rows; i++) {
+                ctx.moveTo(0, (i - this.panI) * ch);
+                ctx.lineTo(width, (i - this.panI) * ch);
+            }
+            for (let j = Math.ceil(this.panJ); j <= m.columns; j++) {
+                ctx.moveTo((j - this.panJ) * cw, 0);
+                ctx.lineTo((j - this.panJ) * cw, height);
+            }
+            ctx.strokeStyle = themeColor('--faint');
+            ctx.lineWidth = 1;
+            ctx.stroke();
+        }
+    }
+
+    private cellSize(): [number, number] {
+        return [this.canvas.clientWidth / this.matrix.columns * this.zoom, this.canvas.clientHeight / this.matrix.rows * this.zoom];
+    }
+
+    private pointerPosition(e: MouseEvent): [number, number] {
+        const r = this.view.getBoundingClientRect();
+        return [e.clientX - r.left - this.view.clientLeft, e.clientY - r.top - this.view.clientTop];
+    }
+
+    private cellAt(x: number, y: number): [number, number] {
+        const [cw, ch] = this.cellSize();
+        const i = Math.floor(this.panI + y / ch), j = Math.floor(this.panJ + x / cw);
+        return inRange(i, this.matrix.rows) && inRange(j, this.matrix.columns) ? [i, j] : [-1, -1];
+    }
+
+    // Zooming in far enough to see a few cells across is as far as it goes.
+    private zoomAt(x: number, y: number, factor: number): void {
+        const m = this.matrix;
+        const [cw, ch] = this.cellSize();
+        const i = this.panI + y / ch, j = this.panJ + x / cw;
+        this.zoom = Math.min(Math.max(this.zoom * factor, 1), Math.max(1, Math.max(m.rows, m.columns) / 4));
+        const [newCw, newCh] = this.cellSize();
+        this.panTo(i - y / newCh, j - x / newCw);
+    }
+
+    private zoomBy(factor: number): void {
+        this.zoomAt(this.canvas.clientWidth / 2, this.canvas.clientHeight / 2, factor);
+    }
+
+    private panTo(i: number, j: number): void {
+        const m = this.matrix;
+        this.panI = Math.min(Math.max(i, 0), m.rows - m.rows / this.zoom);
+        this.panJ = Math.min(Math.max(j, 0), m.columns - m.columns / this.zoom);
+        this.redraw();
+        if (this.hoverI >= 0)
+            this.showTooltip(this.hoverI, this.hoverJ);
+    }
+
+    // Pans just far enough to bring a cell into view.
+    private scrollTo(i: number, j: number): void {
+        const m = this.matrix;
+        const visibleI = m.rows / this.zoom, visibleJ = m.columns / this.zoom;
+        this.panTo(Math.min(Math.max(this.panI, i + 1 - visibleI), i), Math.min(Math.max(this.panJ, j + 1 - visibleJ), j));
+    }
+
+    private keyDown(e: KeyboardEvent): void {
+        const m = this.matrix;
+        let i = this.focusI, j = this.focusJ;
+        if (e.key === 'ArrowUp')
+            i--;
+        else if (e.key === 'ArrowDown')
+            i++;
+        else if (e.key === 'ArrowLeft')
+            j--;
+        else if (e.key === 'ArrowRight')
+            j++;
+        else if (e.key === 'Home')
+            j = 0;
+        else if (e.key === 'End')
+            j = m.columns - 1;
+        else if ((e.key === 'Enter' || e.key === 'F2') && this.editable)
+            this.beginEdit(i, j);
+        else if (e.key === ' ')
+            this.clicked(i, j);
+        else if (e.key === '+' || e.key === '=')
+            this.zoomBy(2);
+        else if (e.key === '-')
+            this.zoomBy(1 / 2);
+        else
+            return;
+
+        e.preventDefault();
+        this.focusI = Math.min(Math.max(i, 0), m.rows - 1);
+        this.focusJ = Math.min(Math.max(j, 0), m.columns - 1);
+        this.scrollTo(this.focusI, this.focusJ);
+        this.hovered(this.focusI, this.focusJ);
+    }
+
+    private showTooltip(i: number, j: number): void {
+        if (i < 0) {
+            this.tooltip.style.display = 'none';
+            return;
+        }
+
+        const m = this.matrix;
+        this.tooltip.textContent = `row ${i + 1}, column ${j + 1}: ${formatEntry(m, i, j, this.formatter)}`;
+        if (this.formatter.isRounded(m.getInput(i, j)))
+            this.tooltip.textContent += ` (${m.getInput(i, j)} is stored as ${m.getV(i, j)})`;
+
+        // Above the cell, unless that's off the top, and kept from running off either side.
+        const [cw, ch] = this.cellSize();
+        const x = (j + 0.5 - this.panJ) * cw, y = (i - this.panI) * ch;
+        this.tooltip.style.display = 'block';
+        const left = Math.min(Math.max(x - this.tooltip.offsetWidth / 2, 0), this.view.clientWidth - this.tooltip.offsetWidth);
+        this.tooltip.style.left = `${Math.max(left, 0)}px`;
+        this.tooltip.style.top = `${y - this.tooltip.offsetHeight - 4 >= 0 ? y - this.tooltip.offsetHeight - 4 : y + ch + 4}px`;
+    }
+
+    private beginEdit(i: number, j: number): void {
+        if (!this.editable || i < 0 || this.view.querySelector('input') !== null)
+            return;
+
+        // Edit the exact value, not however it happens to be formatted.
+        const m = this.matrix;
+        const input = m.getInput(i, j);
+        const original = input !== undefined ? `${input}` : float32ToString(m.getV(i, j));
+
+        const editor = document.createElement('input');
+        editor.value = original;
+        editor.setAttribute('aria-label', `Row ${i + 1}, column ${j + 1}`);
+        editor.style.position = 'absolute';
+        editor.style.zIndex = '300';
+        editor.style.width = '6em';
+        editor.style.font = 'inherit';
+        editor.style.fontSize = '60%';
+        editor.style.left = `${Math.min(Math.max((j - this.panJ) * this.cellSize()[0], 0), Math.max(this.view.clientWidth - 100, 0))}px`;
+        editor.style.top = `${Math.min(Math.max((i - this.panI) * this.cellSize()[1], 0), Math.max(this.view.clientHeight - 30, 0))}px`;
+        editor.onpointerdown = (e) => { e.stopPropagation(); };
+        editor.ondblclick = (e) => { e.stopPropagation(); };
+        this.view.appendChild(editor);
+        editor.focus();
+        editor.select();
+
+        let done = false;
+        const finish = (commit: boolean) => {
+            if (done)
+                return;
+            done = true;
+
+            editor.remove();
+            this.view.focus();
+            if (commit && editor.value !== original && !this.commitEdit(i, j, editor.value))
+                this.flashInvalid();
+        };
+
+        editor.onkeydown = (e) => {
+            e.stopPropagation();
+            if (e.key === 'Enter') {
+                e.preventDefault();
+                finish(true);
+            } else if (e.key === 'Escape') {
+                // Keep the diagram from also treating this as an unpin.
+                e.preventDefault();
+                finish(false);
+            }
+        };
+        editor.onblur = () => { finish(true); };
+    }
+
+    private commitEdit(i: number, j: number, text: string): boolean {
+        const m = this.matrix;
+        const v = parseNumber(text);
+        if (v === null)
+            return false;
+        if (v === m.getInput(i, j))
+            return true;
+        m.setInput(i, j, v);
+
+        this.update();
+        if (this.onedit !== null)
+            this.onedit(i, j);
+        return true;
+    }
+
+    private flashInvalid(): void {
+        this.view.style.borderColor = 'var(--error)';
+        setTimeout(() => { this.view.style.borderColor = ''; }, 600);
+    }
+
+    private highlight(): HTMLElement {
+        const elem = document.createElement('div');
+        elem.setAttribute('aria-hidden', 'true');
+        elem.style.display = 'none';
+        elem.style.position = 'absolute';
+        elem.style.boxSizing = 'border-box';
+        elem.style.pointerEvents = 'none';
+        elem.style.boxShadow = '0 0 0 1px var(--text-outline)';
+        this.view.appendChild(elem);
+        this.highlights.set(elem, { mode: null, i: -1, j: -1 });
+        return elem;
+    }
+
+    private setHighlight(elem: HTMLElement, mode: HeatmapHighlight['mode'], color: string, i: number = -1, j: number = -1): void {
+        // Outlined rather than filled, so the values underneath still show.
+        elem.style.border = `3px solid ${color}`;
+        this.highlights.set(elem, { mode, i, j });
+        this.placeHighlights();
+    }
+
+    // Highlights follow the zoom, and stay big enough to see however far out it is.
+    private placeHighlights(): void {
+        const minimum = 8;
+        const [cw, ch] = this.cellSize();
+        for (const [elem, { mode, i, j }] of this.highlights) {
+            if (mode === null) {
+                elem.style.display = 'none';
+                continue;
+            }
+
+            let top = 0, left = 0, height = this.canvas.clientHeight, width = this.canvas.clientWidth;
+            if (mode !== 'column') {
+                top = (i - this.panI) * ch;
+                height = ch;
+            }
+            if (mode !== 'row') {
+                left = (j - this.panJ) * cw;
+                width = cw;
+            }
+            if (height < minimum) {
+                top -= (minimum - height) / 2;
+                height = minimum;
+            }
+            if (width < minimum) {
+                left -= (minimum - width) / 2;
+                width = minimum;
+            }
+
+            elem.style.display = 'block';
+            elem.style.top = `${top}px`;
+            elem.style.left = `${left}px`;
+            elem.style.width = `${width}px`;
+            elem.style.height = `${height}px`;
+        }
+    }
+
+    public setRowHighlight(rowIndex: number, color: string): void {
+        this.setHighlight(this.highlightRow, rowIndex >= 0 ? 'row' : null, color, rowIndex);
+    }
+
+    public setColumnHighlight(columnIndex: number, color: string): void {
+        this.setHighlight(this.highlightColumn, columnIndex >= 0 ? 'column' : null, color, -1, columnIndex);
+    }
+
+    public setCellHighlight(rowIndex: number, columnIndex: number, color: string): void {
+        this.setHighlight(this.highlightCell, rowIndex >= 0 ? 'cell' : null, color, rowIndex, columnIndex);
+    }
+
+    private hovered(i: number, j: number): void {
+        if (i === this.hoverI && j === this.hoverJ)
+            return;
+        this.hoverI = i;
+        this.hoverJ = j;
+        this.showTooltip(i, j);
+        if (this.onhover !== null)
+            this.onhover(i, j);
+    }
+
+    private clicked(i: number, j: number): void {
+        if (i >= 0 && this.onclicked !== null)
+            this.onclicked(i, j);
+    }
+}
+
+// Either way of drawing a matrix, as the display mode asks for.
+type MatrixView = MatrixDisplay | MatrixHeatmap;
+
+function createMatrixView(matrix: AnyMatrix, formatter: NumberFormatter, display: DisplayMode): MatrixView {
+    return display === 'heatmap' ? new MatrixHeatmap(matrix as Matrix, formatter) : new MatrixDisplay(matrix, formatter);
+}
+
+// What a diagram is currently highlighting. Hovering previews a selection, and clicking (or tapping)
+// pins it so that it stays put once the pointer leaves. Unused coordinates are -1.
+class HoverSelection {
+    public pinned: [number, number] | null = null;
+    public onpinchange: (() => void) | null = null;
+    public onhover: ((i: number, j: number) => void) | null = null;
+
+    constructor(private apply: (i: number, j: number) => void, private isValid: (i: number, j: number) => boolean) {
+    }
+
+    public hover(i: number, j: number): void {
+        if (this.pinned !== null)
+            return;
+
+        this.apply(i, j);
+        if (this.onhover !== null)
+            this.onhover(i, j);
+    }
+
+    public toggle(i: number, j: number): void {
+        if (this.pinned !== null && this.pinned[0] === i && this.pinned[1] === j)
+            this.unpin();
+        else
+            this.pin(i, j);
+    }
+
+    public pin(i: number, j: number): boolean {
+        if (!this.isValid(i, j))
+            return false;
+
+        this.pinned = [i, j];
+        this.apply(i, j);
+        if (this.onpinchange !== null)
+            this.onpinchange();
+        return true;
+    }
+
+    public unpin(): void {
+        if (this.pinned === null)
+            return;
+
+        this.pinned = null;
+        this.apply(-1, -1);
+        if (this.onpinchange !== null)
+            this.onpinchange();
+    }
+}
+
+function inRange(n: number, max: number): boolean {
+    return n === -1 || (n >= 0 && n < max);
+}
+
+// For picking apart data from elsewhere, like JSON or messages, without taking its shape on trust.
+function isRecord(v: unknown): v is { [key: string]: unknown } {
+    return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+interface NamedMatrix {
+    name: string;
+    matrix: Matrix;
+}
+
+// Only numeric matrices can be exported.
+function namedMatrices(matrices: [string, AnyMatrix][]): NamedMatrix[] {
+    const r: NamedMatrix[] = [];
+    for (const [name, matrix] of matrices)
+        if (matrix instanceof Matrix)
+            r.push({ name, matrix });
+    return r;
+}
+
+interface Base {
+    elem: HTMLElement;
+    selection?: HoverSelection;
+    // The matrices shown, for exporting.
+    matrices?: NamedMatrix[];
+    // Steps through the diagram's states for a sequence export, naming each one, and puts things
+    // back as they were when it's done.
+    frames?: () => Iterable<string>;
+    // The equation behind what's highlighted, for docs, or null if nothing is.
+    equation?: (format: MathFormat) => string | null;
+    // How its values are shown, so that exported LaTeX and MathML show them the same way.
+    formatter?: NumberFormatter;
+    // The hash spec for what it shows now, for diagrams that can be changed into something other
+    // than what they were made from. Null if it can't be written as one.
+    hash?: () => string | null;
+    // Set by whatever shows the diagram, for when the above get replaced.
+    onchange?: (() => void) | null;
+    // Redraws anything drawn in the theme's colors, rather than styled with them.
+    retheme?: () => void;
+}
+
+function textDiv(s: string): HTMLElement {
+    const div = document.createElement('div');
+    div.textContent = s;
+    div.style.placeSelf = 'center';
+    div.style.fontSize = '150%';
+    return div;
+}
+
+function button(label: string, onclick: () => void): HTMLButtonElement {
+    const elem = document.createElement('button');
+    elem.textContent = label;
+    elem.style.font = 'inherit';
+    elem.style.fontSize = '70%';
+    elem.style.color = 'inherit';
+    elem.style.background = 'none';
+    elem.style.border = '2px solid currentColor';
+    elem.style.borderRadius = '0.4em';
+    elem.style.padding = '0.2em 0.6em';
+    elem.style.cursor = 'pointer';
+    elem.onclick = onclick;
+    return elem;
+}
+
+function errorText(s: string): HTMLElement {
+    const div = document.createElement('div');
+    div.style.placeSelf = `center`;
+    div.style.lineHeight = '1em';
+    div.style.color = 'var(--error)';
+    div.setAttribute('role', 'alert');
+    div.textContent = s;
+    div.style.webkitTextStroke = `2px var(--text-outline)`;
+    div.style.paintOrder = `stroke fill`;
+    div.style.textShadow = `0 0 10px var(--text-outline)`;
+    return div;
+}
+
+// Colors all come from the theme, through CSS custom properties on the root element.
+interface Theme {
+    background: string;
+    foreground: string;
+    highlightRow: string;
+    highlightColumn: string;
+    highlightCell: string;
+    error: string;
+    // Drawn around text sitting on a highlight, to keep it legible.
+    textOutline: string;
+    muted: string;
+    faint: string;
+    // Heatmaps shade negative values towards scaleLow and positive ones towards scaleHigh, from the
+    // background at zero.
+    scaleLow: string;
+    scaleHigh: string;
+}
+
+const themes: { [name: string]: Theme } = {
+    'dark': {
+        background: '#445', foreground: 'white',
+        highlightRow: '#cc2222a0', highlightColumn: '#2222cca0', highlightCell: '#22cc22a0',
+        error: 'red', textOutline: 'black', muted: '#ffffff60', faint: '#ffffff30',
+        scaleLow: '#5aa0ff', scaleHigh: '#ff6a50',
+    },
+    'light': {
+        background: '#f4f4ef', foreground: '#223',
+        highlightRow: '#e8505080', highlightColumn: '#5070e880', highlightCell: '#40c04080',
+        error: '#c00000', textOutline: 'white', muted: '#00000060', faint: '#00000030',
+        scaleLow: '#2c7bb6', scaleHigh: '#d7191c',
+    },
+    'high-contrast': {
+        background: 'black', foreground: 'white',
+        highlightRow: '#ff3030d0', highlightColumn: '#3070ffd0', highlightCell: '#00d000d0',
+        error: '#ff5050', textOutline: 'black', muted: '#ffffffc0', faint: '#ffffff80',
+        scaleLow: '#00a0ff', scaleHigh: '#ffe000',
+    },
+    // Orange, blue and yellow from the Okabe-Ito palette stay distinct without red-green vision.
+    'color-blind': {
+        background: '#445', foreground: 'white',
+        highlightRow: '#e69f00b0', highlightColumn: '#0072b2c0', highlightCell: '#f0e442a0',
+        error: '#ff8c40', textOutline: 'black', muted: '#ffffff60', faint: '#ffffff30',
+        scaleLow: '#56b4e9', scaleHigh: '#e69f00',
+    },
+};
+themes['deuteranopia'] = themes['color-blind'];
+themes['protanopia'] = themes['color-blind'];
+
+function applyTheme(theme: Theme): void {
+    const style = document.documentElement.style;
+    style.setProperty('--background', theme.background);
+    style.setProperty('--foreground', theme.foreground);
+    style.setProperty('--highlight-row', theme.highlightRow);
+    style.setProperty('--highlight-column', theme.highlightColumn);
+    style.setProperty('--highlight-cell', theme.highlightCell);
+    style.setProperty('--error', theme.error);
+    style.setProperty('--text-outline', theme.textOutline);
+    style.setProperty('--muted', theme.muted);
+    style.setProperty('--faint', theme.faint);
+    style.setProperty('--scale-low', theme.scaleLow);
+    style.setProperty('--scale-high', theme.scaleHigh);
+}
+
+// Canvases can't use var(), so anything drawn on one looks its colors up.
+function themeColor(property: string): string {
+    return getComputedStyle(document.documentElement).getPropertyValue(property).trim();
+}
+
+// Red, green and blue from 0 to 255, for anything that sets pixels itself. Whatever form the color
+// is written in, a canvas turns it into #rrggbb or rgba() first.
+function colorComponents(color: string): [number, number, number] {
+    const ctx = document.createElement('canvas').getContext('2d');
+    if (ctx === null)
+        return [0, 0, 0];
+    ctx.fillStyle = color;
+    const s = `${ctx.fillStyle}`;
+    const hex = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(s);
+    if (hex !== null)
+        return [parseInt(hex[1], 16), parseInt(hex[2], 16), parseInt(hex[3], 16)];
+    const rgb = /^rgba?\((\d+), (\d+), (\d+)/.exec(s);
+    return rgb !== null ? [parseInt(rgb[1], 10), parseInt(rgb[2], 10), parseInt(rgb[3], 10)] : [0, 0, 0];
+}
+
+const highlightRow    = `var(--highlight-row)`;
+const highlightColumn = `var(--highlight-column)`;
+const highlightCell   = `var(--highlight-cell)`;
+
+interface MatrixMulOptions {
+    names?: [string, string, string];
+    editable?: boolean;
+    playback?: boolean;
+    display?: DisplayMode;
+}
+
+class MatrixMulDiagram {
+    public elem: HTMLElement;
+    private displayA: MatrixView;
+    private displayB: MatrixView;
+    private displayC: MatrixView;
+    private explanationText: HTMLElement;
+    public selection: HoverSelection;
+    public matrices: NamedMatrix[];
+    public frames: () => Iterable<string>;
+    public equation: (format: MathFormat) => string | null;
+
+    constructor(a: AnyMatrix, b: AnyMatrix, formatter: NumberFormatter = defaultFormatter, options: MatrixMulOptions = {}) {
+        const c = multiply(a, b);
+        const names = options.names ?? ['A', 'B', 'C'];
+        const display = options.display ?? 'grid';
+        this.matrices = namedMatrices([[names[0].toLowerCase(), a], [names[1].toLowerCase(), b], [names[2].toLowerCase(), c]]);
+
+        this.elem = document.createElement('div');
+        this.elem.style.display = 'flex';
+        this.elem.style.margin = `2em`;
+        this.elem.style.gap = `2em`;
+        this.elem.style.flexDirection = 'column';
+
+        const topRow = document.createElement('div');
+        topRow.style.display = `flex`;
+        topRow.style.gap = `1em`;
+        topRow.style.flexGrow = `1`;
+
+        this.displayA = createMatrixView(a, formatter, display);
+        this.displayA.setName(names[0]);
+        this.displayA.elem.style.flexGrow = `1`;
+        topRow.appendChild(this.displayA.elem);
+
+        topRow.appendChild(textDiv(`×`));
+
+        this.displayB = createMatrixView(b, formatter, display);
+        this.displayB.setName(names[1]);
+        this.displayB.elem.style.flexGrow = `1`;
+        topRow.appendChild(this.displayB.elem);
+
+        topRow.appendChild(textDiv(`=`));
+
+        this.displayC = createMatrixView(c, formatter, display);
+        this.displayC.setName(names[2]);
         this.displayC.elem.style.flexGrow = `1`;
         topRow.appendChild(this.displayC.elem);
 
@@ -299,89 +1833,229 @@ class MatrixMulDiagram {
         this.explanationText.style.lineHeight = '1em';
         this.explanationText.style.visibility = 'hidden';
         this.explanationText.textContent = 'abc';
+        this.explanationText.setAttribute('role', 'status');
+        this.explanationText.setAttribute('aria-live', 'polite');
         this.elem.appendChild(this.explanationText);
 
-        const setExplanationText = (i: number, j: number) => {
+        const f = (m: AnyMatrix, i: number, j: number) => formatEntry(m, i, j, formatter, m !== c);
+
+        // Dot products as long as a heatmap's are too much to write out, so they skip the middle.
+        const skipped = (k: number, numTerms: number) => display === 'heatmap' && k >= 2 && k < numTerms - 1;
+
+        // Shows the first numTerms terms of the dot product for C[i, j], and the result once all are there.
+        let explained: [number, number, number] | null = null;
+        const setExplanationText = (i: number, j: number, numTerms: number = a.columns) => {
             if (i < 0) {
+                explained = null;
                 this.explanationText.style.visibility = 'hidden';
                 return;
             }
 
-            const a_v = a.getRow(i);
-            const b_v = b.getColumn(j);
-            const c_v = c.getV(i, j);
-            assert(a_v.length === b_v.length);
+            explained = [i, j, numTerms];
             let s: string[] = [];
-            a_v.forEach((a_n, i) => {
-                const b_n = b_v[i];
-                s.push(`(${a_n} × ${b_n})`);
-            });
-            const e = `${s.join(' + ')} = ${c_v}`;
+            for (let k = 0; k < numTerms; k++) {
+                if (!skipped(k, numTerms))
+                    s.push(`(${f(a, i, k)} × ${f(b, k, j)})`);
+                else if (k === 2)
+                    s.push(`…`);
+            }
+            const e = numTerms < a.columns ? `${s.join(' + ')} + …` : `${s.join(' + ')} = ${f(c, i, j)}`;
             this.explanationText.textContent = e;
             this.explanationText.style.visibility = 'visible';
         };
 
+        // The same, as LaTeX or MathML, colored like the highlights.
+        this.equation = (format) => {
+            if (explained === null)
+                return null;
+
+            const [i, j, numTerms] = explained;
+            const rowColor = themeHexColor('--highlight-row'), columnColor = themeHexColor('--highlight-column'), cellColor = themeHexColor('--highlight-cell');
+            const parts: MathPart[] = [];
+            for (let k = 0; k < numTerms; k++) {
+                if (skipped(k, numTerms)) {
+                    if (k === 2)
+                        parts.push({ text: '+ …' });
+                    continue;
+                }
+                if (k > 0)
+                    parts.push({ text: '+' });
+                parts.push({ text: '(' }, { text: f(a, i, k), color: rowColor }, { text: '×' }, { text: f(b, k, j), color: columnColor }, { text: ')' });
+            }
+            if (numTerms < a.columns)
+                parts.push({ text: '+ …' });
+            else
+                parts.push({ text: '=' }, { text: f(c, i, j), color: cellColor });
+            return equationToMath(parts, format);
+        };
+
+        let selectedI = -1, selectedJ = -1;
         const setSelectedCell = (i: number, j: number) => {
+            selectedI = i; selectedJ = j;
             if (i < 0 || j < 0) {
                 i = 0; j = 0;
             }
 
+            this.displayA.setCellHighlight(-1, -1, highlightCell);
             this.displayA.setRowHighlight(i, highlightRow);
+            this.displayB.setCellHighlight(-1, -1, highlightCell);
             this.displayB.setColumnHighlight(j, highlightColumn);
             this.displayC.setCellHighlight(i, j, highlightCell);
             setExplanationText(i, j);
         };
 
-        this.displayA.onmousehover = (i, j) => setSelectedCell(i, 0);
-        this.displayB.onmousehover = (i, j) => setSelectedCell(0, j);
-        this.displayC.onmousehover = (i, j) => setSelectedCell(i, j);
+        // Playback walks through every cell of C, and every term of its dot product.
+        // While it's active, hovering is ignored so the mouse can't knock it off course.
+        const numSteps = c.rows * c.columns * a.columns;
+        let step = -1;
+        let timer: number | null = null;
 
-        setSelectedCell(-1, -1);
-    }
-}
+        const showStep = () => {
+            const k = step % a.columns;
+            const cellIndex = (step - k) / a.columns;
+            const i = Math.floor(cellIndex / c.columns), j = cellIndex % c.columns;
 
-class Diagram1 extends MatrixMulDiagram {
-    constructor() {
-        const a = new Matrix(2, 2);
-        const b = new Matrix(2, 2);
-        for (let i = 0; i < a.length; i++)
-            a[i] = i + 1;
-        for (let i = 0; i < b.length; i++)
-            b[i] = a.length + i + 1;
+            this.displayA.setRowHighlight(i, highlightRow);
+            this.displayA.setCellHighlight(i, k, highlightCell);
+            this.displayB.setColumnHighlight(j, highlightColumn);
+            this.displayB.setCellHighlight(k, j, highlightCell);
+            this.displayC.setCellHighlight(i, j, highlightCell);
+            setExplanationText(i, j, k + 1);
+        };
 
-        super(a, b);
-    }
-}
+        const pause = () => {
+            if (timer !== null)
+                clearInterval(timer);
+            timer = null;
+            playButton.textContent = `▶ Play`;
+        };
 
-class Diagram2 extends MatrixMulDiagram {
-    constructor() {
-        const a = new Matrix(2, 4);
-        const b = new Matrix(4, 3);
-        for (let i = 0; i < a.length; i++)
-            a[i] = i + 1;
-        for (let i = 0; i < b.length; i++)
-            b[i] = a.length + i + 1;
+        const advance = () => {
+            // Stop once we've been swapped out for another diagram.
+            if (timer !== null && !this.elem.isConnected) {
+                pause();
+                return;
+            }
+
+            step++;
+            showStep();
+            if (step === numSteps - 1)
+                pause();
+        };
+
+        const play = () => {
+            if (step === numSteps - 1)
+                step = -1;
+            advance();
+            timer = setInterval(advance, 800);
+            playButton.textContent = `❚❚ Pause`;
+        };
+
+        const reset = () => {
+            pause();
+            step = -1;
+            setSelectedCell(-1, -1);
+            this.selection.unpin();
+        };
+
+        const controls = document.createElement('div');
+        controls.style.placeSelf = `center`;
+        controls.style.display = `flex`;
+        controls.style.gap = `1em`;
+        const playButton = button(`▶ Play`, () => { timer === null ? play() : pause(); });
+        controls.appendChild(playButton);
+        controls.appendChild(button(`⏭ Step`, () => { pause(); if (step < numSteps - 1) advance(); }));
+        controls.appendChild(button(`⏮ Reset`, reset));
+        if (options.playback ?? true)
+            this.elem.appendChild(controls);
+
+        // Every selection is a cell of C, so a row or column on its own doesn't mean anything.
+        this.selection = new HoverSelection(setSelectedCell, (i, j) => (i < 0) === (j < 0) && inRange(i, c.rows) && inRange(j, c.columns));
+
+        const hovered = (i: number, j: number) => {
+            // A run that has finished hands back to hovering.
+            if (step === numSteps - 1 && timer === null)
+                step = -1;
+            if (step < 0)
+                this.selection.hover(i, j);
+        };
+
+        // Pinning a cell takes over from playback.
+        const clicked = (i: number, j: number) => {
+            pause();
+            step = -1;
+            this.selection.toggle(i, j);
+        };
+
+        this.displayA.onhover = (i, j) => hovered(i, 0);
+        this.displayB.onhover = (i, j) => hovered(0, j);
+        this.displayC.onhover = (i, j) => hovered(i, j);
+        this.displayA.onclicked = (i, j) => clicked(i, 0);
+        this.displayB.onclicked = (i, j) => clicked(0, j);
+        this.displayC.onclicked = (i, j) => clicked(i, j);
+
+        const redraw = () => {
+            if (step >= 0)
+                showStep();
+            else
+                setSelectedCell(selectedI, selectedJ);
+        };
 
-        super(a, b);
+        // A and B can be edited in place; C follows along.
+        const recompute = () => {
+            if (a instanceof Matrix && b instanceof Matrix && c instanceof Matrix)
+                a.mulInto(b, c);
+            else
+                copyMatrix(c, multiply(a, b));
+            this.displayC.update();
+            redraw();
+        };
+
+        // One frame for each cell of C.
+        this.frames = function* () {
+            const savedI = selectedI, savedJ = selectedJ;
+            try {
+                for (let i = 0; i < c.rows; i++) {
+                    for (let j = 0; j < c.columns; j++) {
+                        setSelectedCell(i, j);
+                        yield `r${i + 1}c${j + 1}`;
+                    }
+                }
+            } finally {
+                selectedI = savedI;
+                selectedJ = savedJ;
+                redraw();
+            }
+        };
+
+        this.displayA.editable = options.editable ?? true;
+        this.displayA.onedit = recompute;
+        this.displayB.editable = options.editable ?? true;
+        this.displayB.onedit = recompute;
+
+        setSelectedCell(-1, -1);
+    }
+
+    // Heatmaps shade themselves in the theme's colors.
+    public retheme(): void {
+        for (const display of [this.displayA, this.displayB, this.displayC])
+            if (display instanceof MatrixHeatmap)
+                display.update();
     }
 }
 
-class Diagram3 {
+class MatrixMulMismatchDiagram {
     public elem: HTMLElement;
     private displayA: MatrixDisplay;
     private displayB: MatrixDisplay;
     private displayC: MatrixDisplay;
     private explanationText: HTMLElement;
+    public selection: HoverSelection;
+    public matrices: NamedMatrix[];
 
-    constructor() {
-        const a = new Matrix(4, 2);
-        const b = new Matrix(3, 4);
-        for (let i = 0; i < a.length; i++)
-            a[i] = i + 1;
-        for (let i = 0; i < b.length; i++)
-            b[i] = a.length + i + 1;
-
+    constructor(a: AnyMatrix, b: AnyMatrix, formatter: NumberFormatter = defaultFormatter) {
         const c = new Matrix(2, 2);
+        this.matrices = namedMatrices([['a', a], ['b', b]]);
 
         this.elem = document.createElement('div');
         this.elem.style.display = 'flex';
@@ -394,19 +2068,22 @@ class Diagram3 {
         topRow.style.gap = `1em`;
         topRow.style.flexGrow = `1`;
 
-        this.displayA = new MatrixDisplay(a);
+        this.displayA = new MatrixDisplay(a, formatter);
+        this.displayA.setName('A');
         this.displayA.elem.style.flexGrow = `1`;
         topRow.appendChild(this.displayA.elem);
 
         topRow.appendChild(textDiv(`×`));
 
-        this.displayB = new MatrixDisplay(b);
+        this.displayB = new MatrixDisplay(b, formatter);
+        this.displayB.setName('B');
         this.displayB.elem.style.flexGrow = `1`;
         topRow.appendChild(this.displayB.elem);
 
         topRow.appendChild(textDiv(`=`));
 
-        this.displayC = new MatrixDisplay(c);
+        this.displayC = new MatrixDisplay(c, formatter);
+        this.displayC.setName('C');
         this.displayC.elem.style.flexGrow = `1`;
         this.displayC.iterCells((i, j) => {
             this.displayC.getCell(i, j).textContent = '…';
@@ -415,64 +2092,956 @@ class Diagram3 {
 
         this.elem.appendChild(topRow);
 
-        this.explanationText = document.createElement('div');
-        this.explanationText.style.placeSelf = `center`;
-        this.explanationText.style.lineHeight = '1em';
-        this.explanationText.style.color = 'red';
-        this.explanationText.textContent = `Error: Cannot multiply ${a.rows}x${a.columns} matrix with ${b.rows}x${b.columns} matrix`;
-        this.explanationText.style.webkitTextStroke = `2px black`;
-        this.explanationText.style.paintOrder = `stroke fill`;
-        this.explanationText.style.textShadow = `0 0 10px black`;
+        this.explanationText = errorText(`Error: Cannot multiply ${a.rows}x${a.columns} matrix with ${b.rows}x${b.columns} matrix`);
         this.elem.appendChild(this.explanationText);
 
-        this.displayA.onmousehover = (i, j) => { this.displayA.setRowHighlight(i, highlightRow); };
-        this.displayB.onmousehover = (i, j) => { this.displayB.setColumnHighlight(j, highlightColumn); };
-    }
+        this.selection = new HoverSelection((i, j) => {
+            this.displayA.setRowHighlight(i, highlightRow);
+            this.displayB.setColumnHighlight(j, highlightColumn);
+        }, (i, j) => inRange(i, a.rows) && inRange(j, b.columns));
+
+        this.displayA.onhover = (i, j) => { this.selection.hover(i, -1); };
+        this.displayB.onhover = (i, j) => { this.selection.hover(-1, j); };
+        this.displayA.onclicked = (i, j) => { this.selection.toggle(i, -1); };
+        this.displayB.onclicked = (i, j) => { this.selection.toggle(-1, j); };
+    }
 }
 
-class Diagram4 extends MatrixMulDiagram {
-    constructor() {
-        const a = new Matrix(4, 4);
-        const b = new Matrix(4, 1);
-        for (let i = 0; i < a.length; i++)
-            a[i] = i + 1;
-        for (let i = 0; i < b.length; i++)
-            b[i] = i + 1;
+type MulView = 'dot' | 'columns' | 'rows' | 'outer';
+
+const mulViews: { value: MulView, label: string }[] = [
+    { value: 'dot', label: 'Rows times columns' },
+    { value: 'columns', label: 'Combining columns of A' },
+    { value: 'rows', label: 'Combining rows of B' },
+    { value: 'outer', label: 'Summing outer products' },
+];
+
+interface BreakdownTerm {
+    elem: HTMLElement;
+    coefficient: HTMLElement | null;
+    display: MatrixDisplay;
+}
+
+// Other ways of seeing the same product. Each column of C is a mix of A's columns, weighted by the
+// matching column of B; each row of C is a mix of B's rows, weighted by the matching row of A; and
+// C is the sum of each column of A times the matching row of B. The terms are spelled out below.
+//
+// Selections are (k, j) when combining columns, (i, k) when combining rows, and (k, cell of C) for
+// outer products, where k is the term.
+class MatrixMulBreakdownDiagram {
+    public elem: HTMLElement;
+    private displayA: MatrixDisplay;
+    private displayB: MatrixDisplay;
+    private displayC: MatrixDisplay;
+    private breakdown: HTMLElement;
+    private terms: BreakdownTerm[] = [];
+    private result: MatrixDisplay | null = null;
+    // Which column or row of C the breakdown is showing.
+    private expanded = -1;
+    private selectedI = -1;
+    private selectedJ = -1;
+    private c: AnyMatrix;
+    public selection: HoverSelection;
+    public matrices: NamedMatrix[];
+
+    constructor(private a: AnyMatrix, private b: AnyMatrix, private view: 'columns' | 'rows' | 'outer', private formatter: NumberFormatter = defaultFormatter) {
+        const c = multiply(a, b);
+        this.c = c;
+        this.matrices = namedMatrices([['a', a], ['b', b], ['c', c]]);
+
+        this.elem = document.createElement('div');
+        this.elem.style.display = 'flex';
+        this.elem.style.margin = `2em`;
+        this.elem.style.gap = `2em`;
+        this.elem.style.flexDirection = 'column';
+
+        const topRow = document.createElement('div');
+        topRow.style.display = `flex`;
+        topRow.style.gap = `1em`;
+        topRow.style.flexGrow = `1`;
+
+        this.displayA = new MatrixDisplay(a, formatter);
+        this.displayA.setName('A');
+        this.displayA.elem.style.flexGrow = `1`;
+        topRow.appendChild(this.displayA.elem);
+
+        topRow.appendChild(textDiv(`×`));
+
+        this.displayB = new MatrixDisplay(b, formatter);
+        this.displayB.setName('B');
+        this.displayB.elem.style.flexGrow = `1`;
+        topRow.appendChild(this.displayB.elem);
+
+        topRow.appendChild(textDiv(`=`));
+
+        this.displayC = new MatrixDisplay(c, formatter);
+        this.displayC.setName('C');
+        this.displayC.elem.style.flexGrow = `1`;
+        topRow.appendChild(this.displayC.elem);
+
+        this.elem.appendChild(topRow);
+
+        this.breakdown = document.createElement('div');
+        this.breakdown.style.display = 'flex';
+        this.breakdown.style.flexWrap = 'wrap';
+        this.breakdown.style.alignItems = 'center';
+        this.breakdown.style.justifyContent = 'center';
+        this.breakdown.style.gap = '0.5em 1em';
+        this.breakdown.style.fontSize = '60%';
+        this.elem.appendChild(this.breakdown);
+
+        this.selection = new HoverSelection((i, j) => {
+            this.selectedI = i;
+            this.selectedJ = j;
+            this.highlight();
+        }, (i, j) => {
+            if (view === 'columns')
+                return inRange(i, a.columns) && inRange(j, c.columns);
+            else if (view === 'rows')
+                return inRange(i, c.rows) && inRange(j, a.columns);
+            else
+                return inRange(i, a.columns) && inRange(j, c.rows * c.columns);
+        });
+
+        // Where each of A, B and C's cells sit in the selection.
+        const route = (m: 'a' | 'b' | 'c', i: number, j: number): [number, number] => {
+            if (view === 'columns')
+                return m === 'a' ? [j, -1] : m === 'b' ? [i, j] : [-1, j];
+            else if (view === 'rows')
+                return m === 'a' ? [i, j] : m === 'b' ? [-1, i] : [i, -1];
+            else
+                return m === 'a' ? [j, -1] : m === 'b' ? [i, -1] : [-1, i * c.columns + j];
+        };
+
+        this.displayA.onhover = (i, j) => { this.selection.hover(...route('a', i, j)); };
+        this.displayB.onhover = (i, j) => { this.selection.hover(...route('b', i, j)); };
+        this.displayC.onhover = (i, j) => { this.selection.hover(...route('c', i, j)); };
+        this.displayA.onclicked = (i, j) => { this.selection.toggle(...route('a', i, j)); };
+        this.displayB.onclicked = (i, j) => { this.selection.toggle(...route('b', i, j)); };
+        this.displayC.onclicked = (i, j) => { this.selection.toggle(...route('c', i, j)); };
+
+        // A and B can be edited in place; C and the terms follow along.
+        const recompute = () => {
+            copyMatrix(c, multiply(a, b));
+            this.displayC.update();
+            this.expanded = -1;
+            this.highlight();
+        };
+        this.displayA.editable = true;
+        this.displayA.onedit = recompute;
+        this.displayB.editable = true;
+        this.displayB.onedit = recompute;
+
+        this.highlight();
+    }
+
+    private showTerms(n: number): void {
+        const { a, b, c, view } = this;
+        removeAll(this.breakdown);
+        this.terms = [];
+        this.result = null;
+
+        for (let k = 0; k < a.columns; k++) {
+            if (k > 0)
+                this.breakdown.appendChild(textDiv(`+`));
+
+            const elem = document.createElement('div');
+            elem.style.display = 'flex';
+            elem.style.alignItems = 'center';
+            elem.style.gap = '0.3em';
+            elem.style.padding = '0.3em';
+            elem.style.borderRadius = '0.6em';
+
+            let coefficient: HTMLElement | null = null;
+            let m: AnyMatrix;
+            let name: string;
+            if (view === 'columns') {
+                coefficient = textDiv(formatEntry(b, k, n, this.formatter, true));
+                m = subMatrix(a, allIndices(a.rows), [k]);
+                name = `Column ${k + 1} of A`;
+            } else if (view === 'rows') {
+                coefficient = textDiv(formatEntry(a, n, k, this.formatter, true));
+                m = subMatrix(b, [k], allIndices(b.columns));
+                name = `Row ${k + 1} of B`;
+            } else {
+                m = multiply(subMatrix(a, allIndices(a.rows), [k]), subMatrix(b, [k], allIndices(b.columns)));
+                name = `Column ${k + 1} of A times row ${k + 1} of B`;
+            }
+
+            if (coefficient !== null) {
+                coefficient.style.fontSize = '100%';
+                coefficient.style.padding = '0 0.2em';
+                coefficient.style.borderRadius = '0.4em';
+                coefficient.onpointerover = () => { this.selection.hover(...this.termSelection(k, n)); };
+                coefficient.onclick = () => { this.selection.toggle(...this.termSelection(k, n)); };
+                elem.appendChild(coefficient);
+            }
+
+            const display = new MatrixDisplay(m, this.formatter);
+            display.setName(name);
+            if (view === 'outer') {
+                display.onhover = (i, j) => { this.selection.hover(k, i * c.columns + j); };
+                display.onclicked = (i, j) => { this.selection.toggle(k, i * c.columns + j); };
+            } else {
+                display.onhover = () => { this.selection.hover(...this.termSelection(k, n)); };
+                display.onclicked = () => { this.selection.toggle(...this.termSelection(k, n)); };
+            }
+            elem.appendChild(display.elem);
+
+            this.breakdown.appendChild(elem);
+            this.terms.push({ elem, coefficient, display });
+        }
+
+        this.breakdown.appendChild(textDiv(`=`));
+        if (view === 'outer') {
+            this.breakdown.appendChild(textDiv(`C`));
+        } else {
+            const m = view === 'columns' ? subMatrix(c, allIndices(c.rows), [n]) : subMatrix(c, [n], allIndices(c.columns));
+            this.result = new MatrixDisplay(m, this.formatter);
+            this.result.setName(view === 'columns' ? `Column ${n + 1} of C` : `Row ${n + 1} of C`);
+            this.breakdown.appendChild(this.result.elem);
+        }
+
+        this.expanded = n;
+    }
+
+    // The selection for term k of column or row n.
+    private termSelection(k: number, n: number): [number, number] {
+        return this.view === 'columns' ? [k, n] : [n, k];
+    }
+
+    private highlight(): void {
+        const { c, view } = this;
+        for (const display of [this.displayA, this.displayB, this.displayC]) {
+            display.setRowHighlight(-1, '');
+            display.setColumnHighlight(-1, '');
+            display.setCellHighlight(-1, -1, '');
+        }
+
+        if (view === 'outer') {
+            const [k, cell] = [this.selectedI, this.selectedJ];
+            const i = cell >= 0 ? Math.floor(cell / c.columns) : -1, j = cell >= 0 ? cell % c.columns : -1;
+            if (this.expanded < 0)
+                this.showTerms(0);
+
+            // A term is all of one column of A times all of one row of B; a cell of C is a row of A
+            // times a column of B, summed across the terms.
+            if (k >= 0) {
+                this.displayA.setColumnHighlight(k, highlightColumn);
+                this.displayB.setRowHighlight(k, highlightRow);
+            } else if (cell >= 0) {
+                this.displayA.setRowHighlight(i, highlightColumn);
+                this.displayB.setColumnHighlight(j, highlightRow);
+            }
+            if (k >= 0 && cell >= 0) {
+                this.displayA.setCellHighlight(i, k, highlightCell);
+                this.displayB.setCellHighlight(k, j, highlightCell);
+            }
+            this.displayC.setCellHighlight(i, j, highlightCell);
+            this.terms.forEach((term, n) => {
+                term.elem.style.backgroundColor = n === k ? 'var(--faint)' : '';
+                term.display.setCellHighlight(k < 0 || n === k ? i : -1, j, highlightCell);
+            });
+            return;
+        }
 
-        super(a, b);
+        // Combining columns and combining rows are the same thing, transposed.
+        const columns = view === 'columns';
+        const [k, n] = columns ? [this.selectedI, this.selectedJ] : [this.selectedJ, this.selectedI];
+        if (Math.max(n, 0) !== this.expanded)
+            this.showTerms(Math.max(n, 0));
+
+        const [combined, weights] = columns ? [this.displayA, this.displayB] : [this.displayB, this.displayA];
+        const [combinedColor, weightColor] = columns ? [highlightColumn, highlightRow] : [highlightRow, highlightColumn];
+        const setLine = (display: MatrixDisplay, index: number, color: string) => {
+            if (columns)
+                display.setColumnHighlight(index, color);
+            else
+                display.setRowHighlight(index, color);
+        };
+        // A line of the weights runs the other way.
+        const setWeightLine = (index: number, color: string) => {
+            if (columns)
+                weights.setRowHighlight(index, color);
+            else
+                weights.setColumnHighlight(index, color);
+        };
+
+        setLine(combined, k, combinedColor);
+        if (k >= 0 && n >= 0)
+            weights.setCellHighlight(columns ? k : n, columns ? n : k, weightColor);
+        else if (k >= 0)
+            setWeightLine(k, weightColor);
+        else
+            setLine(weights, n, weightColor);
+        setLine(this.displayC, n, highlightCell);
+
+        this.terms.forEach((term, index) => {
+            term.coefficient!.style.backgroundColor = index === k ? weightColor : '';
+            setLine(term.display, index === k ? 0 : -1, combinedColor);
+        });
+        if (this.result !== null)
+            setLine(this.result, n >= 0 ? 0 : -1, highlightCell);
     }
 }
 
-class Diagram5 extends MatrixMulDiagram {
-    constructor() {
-        const a = new Matrix(1, 4);
-        const b = new Matrix(4, 4);
-        for (let i = 0; i < a.length; i++)
-            a[i] = i + 1;
-        for (let i = 0; i < b.length; i++)
-            b[i] = i + 1;
+interface DimensionControl {
+    value: HTMLElement;
+    remove: HTMLButtonElement;
+    add: HTMLButtonElement;
+}
+
+interface MatrixProductOptions {
+    view: MulView;
+    resizable: boolean;
+    // Heatmaps only show the dot product view, and aren't resized.
+    display: DisplayMode;
+}
+
+// A multiplication that can be seen in any of the ways above, with controls for adding and
+// removing rows and columns unless it's told otherwise. Every change builds the diagram afresh: a
+// product while the inner dimensions agree, and the mismatch when they don't.
+class MatrixProductDiagram {
+    public elem: HTMLElement;
+    public selection?: HoverSelection;
+    public matrices?: NamedMatrix[];
+    public frames?: () => Iterable<string>;
+    public equation?: (format: MathFormat) => string | null;
+    public onchange: (() => void) | null = null;
+    private diagram: MatrixMulDiagram | MatrixMulBreakdownDiagram | MatrixMulMismatchDiagram;
+    private view: MulView;
+    private display: DisplayMode;
+    private resizable: boolean;
+    private dimensions: DimensionControl[] = [];
+    private shapeText: HTMLElement;
+
+    constructor(private a: AnyMatrix, private b: AnyMatrix, public formatter: NumberFormatter = defaultFormatter, options: MatrixProductOptions = { view: 'dot', resizable: true, display: 'grid' }) {
+        this.view = options.view;
+        this.display = options.display;
+        this.resizable = options.resizable;
+
+        this.elem = document.createElement('div');
+        this.elem.style.display = 'flex';
+        this.elem.style.flexDirection = 'column';
+
+        this.diagram = this.build();
+        this.elem.appendChild(this.diagram.elem);
+
+        const controls = document.createElement('div');
+        controls.style.display = 'flex';
+        controls.style.flexWrap = 'wrap';
+        controls.style.alignItems = 'center';
+        controls.style.gap = '0.5em 2em';
+        controls.style.margin = `0 2em 1em`;
+        controls.style.fontSize = '60%';
+
+        const views = select(mulViews, (v) => { this.view = v; this.rebuild(); });
+        views.value = this.view;
+        views.setAttribute('aria-label', 'View');
+        if (this.display === 'grid')
+            controls.appendChild(views);
+
+        const dimension = (group: HTMLElement, name: 'A' | 'B', noun: 'row' | 'column') => {
+            const resize = (delta: number) => {
+                const m = name === 'A' ? this.a : this.b;
+                if (noun === 'row')
+                    this.resize(name, m.rows + delta, m.columns);
+                else
+                    this.resize(name, m.rows, m.columns + delta);
+            };
+
+            const label = document.createElement('span');
+            label.textContent = `${noun}s`;
+            label.style.marginLeft = '0.5em';
+            group.appendChild(label);
+
+            const remove = button('−', () => resize(-1));
+            remove.setAttribute('aria-label', `Remove a ${noun} from ${name}`);
+            group.appendChild(remove);
+
+            const value = document.createElement('span');
+            value.style.minWidth = '2ch';
+            value.style.padding = '0 0.3em';
+            value.style.borderRadius = '0.4em';
+            value.style.textAlign = 'center';
+            group.appendChild(value);
+
+            const add = button('+', () => resize(1));
+            add.setAttribute('aria-label', `Add a ${noun} to ${name}`);
+            group.appendChild(add);
+
+            this.dimensions.push({ value, remove, add });
+        };
+
+        for (const name of ['A', 'B'] as const) {
+            if (!this.resizable)
+                break;
+            const group = document.createElement('div');
+            group.style.display = 'flex';
+            group.style.alignItems = 'center';
+            group.style.gap = '0.3em';
+            group.setAttribute('role', 'group');
+            group.setAttribute('aria-label', `Size of ${name}`);
+            group.appendChild(document.createTextNode(name));
+            dimension(group, name, 'row');
+            dimension(group, name, 'column');
+            controls.appendChild(group);
+        }
+
+        this.shapeText = document.createElement('div');
+        this.shapeText.style.marginLeft = 'auto';
+        this.shapeText.setAttribute('role', 'status');
+        controls.appendChild(this.shapeText);
+
+        this.elem.appendChild(controls);
+        this.update();
+    }
+
+    private build(): MatrixMulDiagram | MatrixMulBreakdownDiagram | MatrixMulMismatchDiagram {
+        let diagram: MatrixMulDiagram | MatrixMulBreakdownDiagram | MatrixMulMismatchDiagram;
+        if (this.a.columns === this.b.rows && this.view === 'dot') {
+            // A frame for every cell of a heatmap would be far too many.
+            const product = new MatrixMulDiagram(this.a, this.b, this.formatter, { display: this.display, playback: this.display === 'grid' });
+            this.frames = this.display === 'grid' ? product.frames : undefined;
+            this.equation = product.equation;
+            diagram = product;
+        } else {
+            if (this.a.columns === this.b.rows && this.view !== 'dot')
+                diagram = new MatrixMulBreakdownDiagram(this.a, this.b, this.view, this.formatter);
+            else
+                diagram = new MatrixMulMismatchDiagram(this.a, this.b, this.formatter);
+            this.frames = undefined;
+            this.equation = undefined;
+        }
 
-        super(a, b.transpose());
+        diagram.elem.style.flexGrow = '1';
+        this.selection = diagram.selection;
+        this.matrices = diagram.matrices;
+        return diagram;
     }
+
+    public retheme(): void {
+        if (this.diagram instanceof MatrixMulDiagram)
+            this.diagram.retheme();
+    }
+
+    public hash(): string | null {
+        const a = matrixToSpec(this.a), b = matrixToSpec(this.b);
+        if (a === null || b === null)
+            return null;
+
+        const parts = [`mul`, `a=${a}`, `b=${b}`];
+        if (this.view !== 'dot')
+            parts.push(`view=${this.view}`);
+        if (this.display !== 'grid')
+            parts.push(`display=${this.display}`);
+        else if (!this.resizable)
+            parts.push(`resize=off`);
+        parts.push(...formatterToSpec(this.formatter));
+        return encodeURI(parts.join('/'));
+    }
+
+    private resize(name: 'A' | 'B', rows: number, columns: number): void {
+        if (rows < 1 || columns < 1 || rows > maxSpecDimension || columns > maxSpecDimension)
+            return;
+
+        if (name === 'A')
+            this.a = resizeMatrix(this.a, rows, columns);
+        else
+            this.b = resizeMatrix(this.b, rows, columns);
+        this.rebuild();
+    }
+
+    private rebuild(): void {
+        // Whatever was pinned might not be there anymore, or mean the same thing.
+        this.selection!.unpin();
+
+        const diagram = this.build();
+        this.diagram.elem.replaceWith(diagram.elem);
+        this.diagram = diagram;
+        this.update();
+
+        if (this.onchange !== null)
+            this.onchange();
+    }
+
+    private update(): void {
+        const { a, b } = this;
+        const match = a.columns === b.rows;
+        const innerColor = match ? highlightCell : 'var(--error)';
+
+        const sizes = [a.rows, a.columns, b.rows, b.columns];
+        this.dimensions.forEach((d, i) => {
+            d.value.textContent = `${sizes[i]}`;
+            d.remove.disabled = sizes[i] <= 1;
+            d.add.disabled = sizes[i] >= maxSpecDimension;
+            // A's columns and B's rows are the ones that have to agree.
+            d.value.style.backgroundColor = i === 1 || i === 2 ? innerColor : '';
+        });
+
+        const inner = (n: number) => {
+            const span = document.createElement('span');
+            span.textContent = `${n}`;
+            span.style.backgroundColor = innerColor;
+            span.style.borderRadius = '0.4em';
+            span.style.padding = '0 0.2em';
+            return span;
+        };
+
+        removeAll(this.shapeText);
+        this.shapeText.append(`${a.rows}x`, inner(a.columns), ` · `, inner(b.rows), `x${b.columns} → `);
+        this.shapeText.append(match ? `${a.rows}x${b.columns}` : `✗ (${a.columns} ≠ ${b.rows})`);
+    }
+}
+
+// One step of a blocked multiply: the tile of C it adds to, and the tile along the inner dimension
+// that picks which A and B tiles it loads to do it.
+interface TileStep {
+    tileI: number;
+    tileJ: number;
+    tileK: number;
 }
 
-class Diagram6 {
+// A blocked multiply, the way GPU kernels do it: C is worked out a tile at a time, and each tile is
+// a sum over the inner dimension of A tiles times B tiles. Loading tiles rather than whole rows and
+// columns gets more use out of every value loaded. The partial sums are doubles, added up in the
+// same order as Matrix.mul, so the result comes out exactly the same.
+class TiledMulDiagram {
     public elem: HTMLElement;
     private displayA: MatrixDisplay;
     private displayB: MatrixDisplay;
+    private displayC: MatrixDisplay;
+    private explanationText: HTMLElement;
+    private loadsText: HTMLElement;
+    private stepText: HTMLElement;
+    private backButton: HTMLButtonElement;
+    private stepButton: HTMLButtonElement;
+    // What's shown, which each step recomputes from the start.
+    private c: Matrix;
+    private sums: Float64Array;
+    private steps: TileStep[] = [];
+    private step = 0;
+    public matrices: NamedMatrix[];
+    public frames: () => Iterable<string>;
+
+    constructor(private a: Matrix, private b: Matrix, private tileSize: number, public formatter: NumberFormatter = defaultFormatter) {
+        this.c = new Matrix(a.rows, b.columns);
+        this.sums = new Float64Array(this.c.length);
+        this.matrices = namedMatrices([['a', a], ['b', b], ['c', a.mul(b)]]);
 
-    constructor() {
-        const a = new Matrix(3, 4);
-        for (let i = 0; i < a.length; i++)
-            a[i] = i + 1;
+        this.elem = document.createElement('div');
+        this.elem.style.display = 'flex';
+        this.elem.style.margin = `2em`;
+        this.elem.style.gap = `2em`;
+        this.elem.style.flexDirection = 'column';
+
+        const topRow = document.createElement('div');
+        topRow.style.display = `flex`;
+        topRow.style.gap = `1em`;
+        topRow.style.flexGrow = `1`;
+
+        this.displayA = new MatrixDisplay(a, formatter);
+        this.displayA.setName('A');
+        this.displayA.elem.style.flexGrow = `1`;
+        topRow.appendChild(this.displayA.elem);
+
+        topRow.appendChild(textDiv(`×`));
+
+        this.displayB = new MatrixDisplay(b, formatter);
+        this.displayB.setName('B');
+        this.displayB.elem.style.flexGrow = `1`;
+        topRow.appendChild(this.displayB.elem);
+
+        topRow.appendChild(textDiv(`=`));
+
+        this.displayC = new MatrixDisplay(this.c, formatter);
+        this.displayC.setName('C, so far');
+        this.displayC.elem.style.flexGrow = `1`;
+        topRow.appendChild(this.displayC.elem);
+
+        this.elem.appendChild(topRow);
+
+        this.explanationText = document.createElement('div');
+        this.explanationText.style.placeSelf = `center`;
+        this.explanationText.style.textAlign = `center`;
+        this.explanationText.style.fontSize = `80%`;
+        this.explanationText.setAttribute('role', 'status');
+        this.explanationText.setAttribute('aria-live', 'polite');
+        this.elem.appendChild(this.explanationText);
+
+        this.loadsText = textDiv('');
+        this.loadsText.style.fontSize = `60%`;
+        this.elem.appendChild(this.loadsText);
+
+        const controls = document.createElement('div');
+        controls.style.placeSelf = `center`;
+        controls.style.display = `flex`;
+        controls.style.alignItems = `center`;
+        controls.style.gap = `1em`;
+        const sizes = allIndices(Math.max(a.rows, a.columns, b.columns)).map((n) => ({ value: `${n + 1}`, label: `${n + 1}×${n + 1} tiles` }));
+        const tiles = select(sizes, (v) => { this.setTileSize(parseInt(v, 10)); });
+        tiles.value = `${tileSize}`;
+        tiles.setAttribute('aria-label', 'Tile size');
+        tiles.style.fontSize = `70%`;
+        controls.appendChild(tiles);
+        controls.appendChild(button(`⏮ Reset`, () => { this.showStep(0); }));
+        this.backButton = button(`◀ Back`, () => { this.showStep(this.step - 1); });
+        controls.appendChild(this.backButton);
+        this.stepButton = button(`⏭ Step`, () => { this.showStep(this.step + 1); });
+        controls.appendChild(this.stepButton);
+        this.stepText = document.createElement('div');
+        this.stepText.style.fontSize = `70%`;
+        controls.appendChild(this.stepText);
+        this.elem.appendChild(controls);
+
+        this.frames = () => this.stepFrames();
+        this.setTileSize(tileSize);
+    }
+
+    private setTileSize(tileSize: number): void {
+        this.tileSize = tileSize;
+        this.displayA.setTiles(tileSize, tileSize);
+        this.displayB.setTiles(tileSize, tileSize);
+        this.displayC.setTiles(tileSize, tileSize);
+
+        this.steps = [];
+        for (let tileI = 0; tileI < this.tileCount(this.a.rows); tileI++)
+            for (let tileJ = 0; tileJ < this.tileCount(this.b.columns); tileJ++)
+                for (let tileK = 0; tileK < this.tileCount(this.a.columns); tileK++)
+                    this.steps.push({ tileI, tileJ, tileK });
+        this.showStep(0);
+    }
+
+    private tileCount(length: number): number {
+        return Math.ceil(length / this.tileSize);
+    }
+
+    // The rows or columns that tile n covers, from start up to but not including end.
+    private span(n: number, length: number): [number, number] {
+        return [n * this.tileSize, Math.min((n + 1) * this.tileSize, length)];
+    }
+
+    // One frame for each step.
+    private *stepFrames(): Iterable<string> {
+        const saved = this.step;
+        try {
+            for (let n = 0; n <= this.lastStep(); n++) {
+                this.showStep(n);
+                yield `step${n}`;
+            }
+        } finally {
+            this.showStep(saved);
+        }
+    }
+
+    // A step for each pair of tiles, then the finished product.
+    private lastStep(): number {
+        return this.steps.length + 1;
+    }
+
+    private showStep(n: number): void {
+        n = Math.min(Math.max(n, 0), this.lastStep());
+        this.step = n;
+
+        const { a, b, c } = this;
+        // Loads are values read from A and B. Row by column, every multiply-add reads one of each.
+        let loads = 0, multiplyAdds = 0;
+        this.sums.fill(0);
+        for (const { tileI, tileJ, tileK } of this.steps.slice(0, n)) {
+            const [i0, i1] = this.span(tileI, a.rows), [j0, j1] = this.span(tileJ, b.columns), [k0, k1] = this.span(tileK, a.columns);
+            loads += (i1 - i0) * (k1 - k0) + (k1 - k0) * (j1 - j0);
+            multiplyAdds += (i1 - i0) * (j1 - j0) * (k1 - k0);
+            for (let i = i0; i < i1; i++) {
+                for (let j = j0; j < j1; j++) {
+                    let v = this.sums[i * c.columns + j];
+                    for (let k = k0; k < k1; k++)
+                        v += a.getV(i, k) * b.getV(k, j);
+                    this.sums[i * c.columns + j] = v;
+                }
+            }
+        }
+        c.set(this.sums);
+        this.displayC.update();
+
+        // Tiles of C that haven't had anything added to them yet.
+        const tilesJ = this.tileCount(b.columns), tilesK = this.tileCount(a.columns);
+        const firstStep = (i: number, j: number) => (Math.floor(i / this.tileSize) * tilesJ + Math.floor(j / this.tileSize)) * tilesK;
+        this.displayC.setFaded((i, j) => firstStep(i, j) >= n);
+
+        const step = n > 0 && n <= this.steps.length ? this.steps[n - 1] : null;
+        let text: string;
+        if (step !== null) {
+            const { tileI, tileJ, tileK } = step;
+            const [i0, i1] = this.span(tileI, a.rows), [j0, j1] = this.span(tileJ, b.columns), [k0, k1] = this.span(tileK, a.columns);
+            this.displayA.setRangeHighlight(i0, k0, i1, k1, highlightRow);
+            this.displayB.setRangeHighlight(k0, j0, k1, j1, highlightColumn);
+            this.displayC.setRangeHighlight(i0, j0, i1, j1, highlightCell);
+            text = `C tile (${tileI + 1}, ${tileJ + 1}) += A tile (${tileI + 1}, ${tileK + 1}) × B tile (${tileK + 1}, ${tileJ + 1})`;
+            text += tileK === tilesK - 1 ? `, which finishes it` : `, ${tileK + 1} of ${tilesK} along the inner dimension`;
+        } else {
+            this.displayA.setRangeHighlight(-1, -1, -1, -1, '');
+            this.displayB.setRangeHighlight(-1, -1, -1, -1, '');
+            this.displayC.setRangeHighlight(-1, -1, -1, -1, '');
+            if (n === 0) {
+                text = `C is worked out a tile at a time, and each tile is the sum of A tiles times B tiles along the inner dimension.`;
+            } else {
+                const exact = compareMatrices(c, a.mul(b)) === 'identical';
+                text = `Every tile of C is done, and C is ${exact ? 'exactly' : 'not quite'} what multiplying row by column gives.`;
+            }
+        }
+
+        this.explanationText.textContent = text;
+        this.loadsText.textContent = multiplyAdds > 0 ?
+            `${loads} values loaded, against ${2 * multiplyAdds} row by column for the same ${multiplyAdds} multiply-adds` :
+            `Nothing loaded yet. Row by column, it's ${2 * a.rows * a.columns * b.columns} values in all.`;
+        this.stepText.textContent = `${n} / ${this.lastStep()}`;
+        this.backButton.disabled = n === 0;
+        this.stepButton.disabled = n === this.lastStep();
+    }
+}
+
+// A way of parenthesizing a chain of products: either a single matrix in the chain, or the
+// product of two shorter chains.
+type ChainOrder = number | [ChainOrder, ChainOrder];
+
+function allChainOrders(first: number, last: number): ChainOrder[] {
+    if (first === last)
+        return [first];
+
+    const r: ChainOrder[] = [];
+    for (let k = first; k < last; k++)
+        for (const left of allChainOrders(first, k))
+            for (const right of allChainOrders(k + 1, last))
+                r.push([left, right]);
+    return r;
+}
+
+// The textbook matrix-chain dynamic program. dims[i] x dims[i + 1] is the size of matrix i.
+function optimalChainOrder(dims: number[]): ChainOrder {
+    const n = dims.length - 1;
+    const cost: number[][] = [], split: number[][] = [];
+    for (let i = 0; i < n; i++) {
+        cost.push(new Array(n).fill(0));
+        split.push(new Array(n).fill(0));
+    }
+
+    for (let length = 2; length <= n; length++) {
+        for (let i = 0; i + length - 1 < n; i++) {
+            const j = i + length - 1;
+            cost[i][j] = Infinity;
+            for (let k = i; k < j; k++) {
+                const c = cost[i][k] + cost[k + 1][j] + dims[i] * dims[k + 1] * dims[j + 1];
+                if (c < cost[i][j]) {
+                    cost[i][j] = c;
+                    split[i][j] = k;
+                }
+            }
+        }
+    }
+
+    const build = (i: number, j: number): ChainOrder => i === j ? i : [build(i, split[i][j]), build(split[i][j] + 1, j)];
+    return build(0, n - 1);
+}
+
+function chainOrderToString(order: ChainOrder, names: string[], outermost: boolean = true): string {
+    if (typeof order === 'number')
+        return names[order];
+    const s = `${chainOrderToString(order[0], names, false)} × ${chainOrderToString(order[1], names, false)}`;
+    return outermost ? s : `(${s})`;
+}
+
+interface ChainStep {
+    names: [string, string, string];
+    a: AnyMatrix;
+    b: AnyMatrix;
+}
+
+interface ChainEvaluation {
+    name: string;
+    result: AnyMatrix;
+    steps: ChainStep[];
+    // Scalar multiplications.
+    cost: number;
+}
+
+function evaluateChain(order: ChainOrder, chain: AnyMatrix[], names: string[]): ChainEvaluation {
+    if (typeof order === 'number')
+        return { name: names[order], result: chain[order], steps: [], cost: 0 };
+
+    const left = evaluateChain(order[0], chain, names);
+    const right = evaluateChain(order[1], chain, names);
+    const a = left.result, b = right.result;
+    const name = `${left.name}${right.name}`;
+    return {
+        name,
+        result: multiply(a, b),
+        steps: [...left.steps, ...right.steps, { names: [left.name, right.name, name], a, b }],
+        cost: left.cost + right.cost + a.rows * a.columns * b.columns,
+    };
+}
+
+function compareMatrices(a: AnyMatrix, b: AnyMatrix): 'identical' | 'rounding' | 'different' {
+    if (a.rows !== b.rows || a.columns !== b.columns)
+        return 'different';
+
+    if (a instanceof Matrix && b instanceof Matrix) {
+        let r: 'identical' | 'rounding' = 'identical';
+        for (let i = 0; i < a.length; i++) {
+            if (a[i] === b[i])
+                continue;
+            if (Math.abs(a[i] - b[i]) > 1e-5 * Math.max(1, Math.abs(a[i]), Math.abs(b[i])))
+                return 'different';
+            r = 'rounding';
+        }
+        return r;
+    }
+
+    const sa = toSymbolic(a), sb = toSymbolic(b);
+    return sa.values.every((v, i) => v.equals(sb.values[i])) ? 'identical' : 'different';
+}
+
+// A product of three or more matrices, and the different ways of grouping it. Matrix
+// multiplication is associative, so they all agree, but they can cost wildly different amounts.
+class MatrixChainDiagram {
+    public elem: HTMLElement;
+    public matrices: NamedMatrix[];
+
+    constructor(chain: AnyMatrix[], public formatter: NumberFormatter = defaultFormatter) {
+        assert(chain.length >= 2);
+        for (let i = 0; i < chain.length - 1; i++)
+            assert(chain[i].columns === chain[i + 1].rows);
+
+        const names = chain.map((m, i) => String.fromCharCode(65 + i));
+        const dims = [chain[0].rows, ...chain.map((m) => m.columns)];
+
+        // Every grouping for short chains; for longer ones, there are too many to list.
+        const optimal = optimalChainOrder(dims);
+        let orders: ChainOrder[];
+        if (chain.length <= 4) {
+            orders = allChainOrders(0, chain.length - 1);
+        } else {
+            const leftToRight = names.slice(1).reduce<ChainOrder>((order, name, i) => [order, i + 1], 0);
+            const rightToLeft = names.slice(0, -1).reduceRight<ChainOrder>((order, name, i) => [i, order], chain.length - 1);
+            orders = [leftToRight, rightToLeft, optimal];
+        }
+        const evaluations = orders.map((order) => evaluateChain(order, chain, names));
+        const optimalCost = evaluateChain(optimal, chain, names).cost;
+        const final = evaluations[0];
+
+        this.matrices = namedMatrices([...chain.map((m, i): [string, AnyMatrix] => [names[i].toLowerCase(), m]), [final.name.toLowerCase(), final.result]]);
+
+        this.elem = document.createElement('div');
+        this.elem.style.display = 'flex';
+        this.elem.style.margin = `2em`;
+        this.elem.style.gap = `1em`;
+        this.elem.style.flexDirection = 'column';
+
+        const orderList = document.createElement('div');
+        orderList.style.display = 'grid';
+        orderList.style.gridTemplateColumns = `auto auto auto`;
+        orderList.style.gap = `0.2em 2em`;
+        orderList.style.placeSelf = `center`;
+        orderList.style.fontSize = `80%`;
+        orderList.setAttribute('role', 'radiogroup');
+        this.elem.appendChild(orderList);
+
+        const seen = new Set<string>();
+        const rows: HTMLElement[][] = [];
+        evaluations.forEach((evaluation, n) => {
+            const label = chainOrderToString(orders[n], names);
+            if (seen.has(label))
+                return;
+            seen.add(label);
+
+            const row = [
+                textDiv(label),
+                textDiv(`${evaluation.cost} multiplications`),
+                textDiv(evaluation.cost === optimalCost ? `✓ optimal` : ``),
+            ];
+            for (const elem of row) {
+                elem.style.fontSize = '100%';
+                elem.style.placeSelf = 'center start';
+                elem.style.cursor = 'pointer';
+                elem.style.padding = '0.1em 0.4em';
+                elem.style.borderRadius = '0.4em';
+                elem.onclick = () => { showOrder(n, row); };
+                orderList.appendChild(elem);
+            }
+            row[0].setAttribute('role', 'radio');
+            row[0].tabIndex = 0;
+            row[0].onkeydown = (e) => {
+                if (e.key === 'Enter' || e.key === ' ') {
+                    e.preventDefault();
+                    showOrder(n, row);
+                }
+            };
+            rows.push(row);
+        });
+
+        const agreement = document.createElement('div');
+        agreement.style.placeSelf = `center`;
+        agreement.style.fontSize = `80%`;
+        const comparisons = evaluations.map((e) => compareMatrices(final.result, e.result));
+        const size = `${final.result.rows}x${final.result.columns}`;
+        if (comparisons.every((c) => c === 'identical'))
+            agreement.textContent = `All ${seen.size} groupings give the same ${size} result.`;
+        else if (comparisons.every((c) => c !== 'different'))
+            agreement.textContent = `All ${seen.size} groupings give the same ${size} result, up to float32 rounding.`;
+        else
+            agreement.textContent = `The groupings disagree by more than float32 rounding can explain.`;
+        this.elem.appendChild(agreement);
+
+        const stepsElem = document.createElement('div');
+        stepsElem.style.display = 'flex';
+        stepsElem.style.flexDirection = 'column';
+        stepsElem.style.fontSize = '70%';
+        this.elem.appendChild(stepsElem);
+
+        const showOrder = (n: number, row: HTMLElement[]) => {
+            for (const r of rows) {
+                r[0].setAttribute('aria-checked', `${r === row}`);
+                for (const elem of r)
+                    elem.style.backgroundColor = r === row ? highlightCell : '';
+            }
+
+            removeAll(stepsElem);
+            for (const step of evaluations[n].steps) {
+                const [left, right, name] = step.names;
+                const label = textDiv(`${name} = ${left} × ${right}`);
+                label.style.fontSize = '100%';
+                label.style.placeSelf = 'start';
+                label.style.margin = '1em 2em 0';
+                stepsElem.appendChild(label);
+
+                const diagram = new MatrixMulDiagram(step.a, step.b, formatter, { names: step.names, editable: false, playback: false });
+                diagram.elem.style.margin = `1em 2em`;
+                stepsElem.appendChild(diagram.elem);
+            }
+        };
+
+        const optimalIndex = evaluations.findIndex((e) => e.cost === optimalCost);
+        showOrder(optimalIndex, rows.find((r) => r[0].textContent === chainOrderToString(orders[optimalIndex], names))!);
+    }
+}
+
+class TransposeDiagram {
+    public elem: HTMLElement;
+    private displayA: MatrixDisplay;
+    private displayB: MatrixDisplay;
+    public selection: HoverSelection;
+    public matrices: NamedMatrix[];
+
+    constructor(a: AnyMatrix, public formatter: NumberFormatter = defaultFormatter) {
         const b = a.transpose();
+        this.matrices = namedMatrices([['a', a], ['a_t', b]]);
 
         this.elem = document.createElement('div');
         this.elem.style.display = 'flex';
         this.elem.style.gap = `2em`;
         this.elem.style.margin = `2em`;
 
-        this.displayA = new MatrixDisplay(a);
+        this.displayA = new MatrixDisplay(a, formatter);
+        this.displayA.setName('A');
         this.displayA.elem.style.flexGrow = `1`;
         this.elem.appendChild(this.displayA.elem);
 
@@ -487,33 +3056,40 @@ class Diagram6 {
 
         this.elem.appendChild(textDiv(`=`));
 
-        this.displayB = new MatrixDisplay(b);
+        this.displayB = new MatrixDisplay(b, formatter);
+        this.displayB.setName('A transposed');
         this.displayB.elem.style.flexGrow = `1`;
         this.elem.appendChild(this.displayB.elem);
 
         this.displayB.highlightRow.style.zIndex = '5';
 
-        this.displayA.onmousehover = (i, j) => {
+        // The selection is in terms of A; B's (i, j) is A's (j, i).
+        this.selection = new HoverSelection((i, j) => {
             this.displayA.setRowHighlight(i, highlightRow);
             this.displayA.setColumnHighlight(j, highlightColumn);
 
             this.displayB.setColumnHighlight(i, highlightRow);
             this.displayB.setRowHighlight(j, highlightColumn);
-        };
-        this.displayB.onmousehover = (i, j) => {
-            this.displayA.setRowHighlight(j, highlightRow);
-            this.displayA.setColumnHighlight(i, highlightColumn);
+        }, (i, j) => inRange(i, a.rows) && inRange(j, a.columns));
 
-            this.displayB.setColumnHighlight(j, highlightRow);
-            this.displayB.setRowHighlight(i, highlightColumn);
-        };
+        this.displayA.onhover = (i, j) => { this.selection.hover(i, j); };
+        this.displayB.onhover = (i, j) => { this.selection.hover(j, i); };
+        this.displayA.onclicked = (i, j) => { this.selection.toggle(i, j); };
+        this.displayB.onclicked = (i, j) => { this.selection.toggle(j, i); };
     }
 }
 
-class Diagram7 {
+type Packing = 'row-major' | 'column-major';
+
+// Shows how a matrix is packed into a flat array. The listing is laid out valuesPerLine to a line,
+// like the matrix itself by default, so packed rows (or columns) may wrap across lines.
+class LayoutDiagram {
     public elem: HTMLElement;
+    public selection: HoverSelection;
+    public matrices: NamedMatrix[];
 
-    constructor() {
+    constructor(matrix: Matrix, packing: Packing, valuesPerLine: number = matrix.columns, public formatter: NumberFormatter = defaultFormatter) {
+        this.matrices = [{ name: 'm', matrix }];
         this.elem = document.createElement('div');
         this.elem.style.display = 'flex';
         this.elem.style.gap = `1em`;
@@ -528,26 +3104,33 @@ class Diagram7 {
         p.style.flexGrow = `0.5`;
         this.elem.appendChild(p);
 
-        p.querySelectorAll('span').forEach((elem) => {
-            elem.style.padding = `0.4em`;
-        });
-
-        const matrix = new Matrix(3, 4);
+        const byRow = packing === 'row-major';
+        const color = byRow ? highlightRow : highlightColumn;
 
         const setSelected = (i: number, j: number) => {
+            const index = byRow ? i : j;
             highlights.forEach((elem) => {
-                if (elem.dataset.index === `${i}`) {
-                    elem.style.backgroundColor = highlightRow;
+                if (elem.dataset.index === `${index}`) {
+                    elem.style.backgroundColor = color;
                 } else {
                     elem.style.backgroundColor = 'inherit';
                 }
             });
 
-            matrixDisplay.setRowHighlight(i, highlightRow);
+            if (byRow)
+                matrixDisplay.setRowHighlight(i, color);
+            else
+                matrixDisplay.setColumnHighlight(j, color);
         };
 
+        // Only the packed dimension is selectable.
+        const select = (index: number): [number, number] => byRow ? [index, -1] : [-1, index];
+        this.selection = new HoverSelection(setSelected, (i, j) => {
+            return byRow ? (inRange(i, matrix.rows) && j === -1) : (i === -1 && inRange(j, matrix.columns));
+        });
+
         const highlights: HTMLElement[] = [];
-        const createHighlight = (index: number, left: number, top: number, width: number, edge: 'left' | 'right' | null = null): HTMLElement => {
+        const createHighlight = (index: number, left: number, top: number, width: number, edge: 'left' | 'right' | 'both' | null = null): HTMLElement => {
             const h = document.createElement('div');
             h.style.position = 'absolute';
             h.style.left = `${left}ch`;
@@ -558,203 +3141,3002 @@ class Diagram7 {
             h.style.marginTop = `-0.1em`;
             h.style.marginLeft = `-0.2em`;
             h.style.borderRadius = `0.4em`;
-            if (edge === 'left') {
+            if (edge === 'left' || edge === 'both') {
                 h.style.borderTopLeftRadius = '0';
                 h.style.borderBottomLeftRadius = '0';
-            } else if (edge === 'right') {
+            }
+            if (edge === 'right' || edge === 'both') {
                 h.style.borderTopRightRadius = '0';
                 h.style.borderBottomRightRadius = '0';
             }
             h.dataset.index = `${index}`;
-            h.onmouseover = () => { setSelected(index, -1); };
-            h.onmouseout = () => { setSelected(-1, -1); };
+            h.onpointerover = () => { this.selection.hover(...select(index)); };
+            h.onpointerout = () => { this.selection.hover(-1, -1); };
+            h.onclick = () => { this.selection.toggle(...select(index)); };
             highlights.push(h);
             p.appendChild(h);
             return h;
         };
 
-        createHighlight(0, 4, 2, 11);
-        createHighlight(1, 4, 3, 11);
-        createHighlight(2, 4, 4, 14);
+        // Each row of the packed matrix is a row (or column) of the source matrix. Find the span it
+        // covers on each line of the listing, in characters.
+        const packed = byRow ? matrix : matrix.transpose();
+        const indent = `    `;
+        const lines: string[] = [];
+        const spans: { index: number, line: number, left: number, right: number }[] = [];
+        let line = ``;
+        for (let n = 0; n < packed.length; n++) {
+            if (n % valuesPerLine === 0) {
+                if (n > 0)
+                    lines.push(line);
+                line = indent;
+            } else {
+                line += ` `;
+            }
+
+            const index = Math.floor(n / packed.columns);
+            const left = line.length;
+            line += `${float32ToString(packed[n])},`;
+
+            const last = spans[spans.length - 1];
+            if (last !== undefined && last.index === index && last.line === lines.length)
+                last.right = line.length;
+            else
+                spans.push({ index, line: lines.length, left, right: line.length });
+        }
+        lines.push(line);
+
+        spans.forEach((span, n) => {
+            const continuesFrom = n > 0 && spans[n - 1].index === span.index;
+            const continuesOnto = n < spans.length - 1 && spans[n + 1].index === span.index;
+            const edge = continuesFrom && continuesOnto ? 'both' : continuesFrom ? 'left' : continuesOnto ? 'right' : null;
+            // Pull the squared-off edge in a touch, so it sits flush with the end of the line.
+            const width = span.right - span.left - (continuesOnto ? 0.2 : 0);
+            createHighlight(span.index, span.left, 2 + span.line, width, edge);
+        });
 
         const code = document.createElement('div');
-        code.textContent = `// row-major packing\nfloat m[] = {\n    1, 2, 3, 4,\n    5, 6, 7, 8,\n    9, 10, 11, 12,\n};`;
+        code.textContent = `// ${packing} packing\nfloat m[] = {\n${lines.join('\n')}\n};`;
         code.style.isolation = `isolate`;
         code.style.pointerEvents = `none`;
         p.appendChild(code);
 
         this.elem.appendChild(textDiv(`=`));
 
-        for (let i = 0; i < matrix.length; i++)
-            matrix[i] = 1 + i;
-        const matrixDisplay = new MatrixDisplay(matrix);
-        matrixDisplay.onmousehover = setSelected;
+        const matrixDisplay = new MatrixDisplay(matrix, formatter);
+        matrixDisplay.onhover = (i, j) => { this.selection.hover(...select(byRow ? i : j)); };
+        matrixDisplay.onclicked = (i, j) => { this.selection.toggle(...select(byRow ? i : j)); };
         matrixDisplay.elem.style.flexGrow = `1`;
         this.elem.appendChild(matrixDisplay.elem);
     }
 }
 
-class Diagram8 {
+// How a matrix member is laid out in a GPU buffer. All of these put each column (or row) vector
+// on its own aligned stride, which leaves padding after vectors that don't fill it.
+type GpuLayoutRule = 'std140' | 'std430' | 'wgsl' | 'hlsl';
+
+type GpuSlot =
+    | { kind: 'element', i: number, j: number }
+    | { kind: 'padding' }
+    | { kind: 'free' };
+
+interface GpuLayout {
+    declaration: string;
+    indexing: (i: number, j: number) => string;
+    stride: number;
+    size: number;
+    // One slot for every float in the 16-byte rows the matrix touches.
+    slots: GpuSlot[];
+}
+
+function computeGpuLayout(rows: number, columns: number, rule: GpuLayoutRule, packing: Packing): GpuLayout {
+    assert(rows >= 2 && rows <= 4 && columns >= 2 && columns <= 4);
+    assert(rule !== 'wgsl' || packing === 'column-major');
+
+    const byRow = packing === 'row-major';
+    const numVectors = byRow ? rows : columns;
+    const vectorLength = byRow ? columns : rows;
+
+    // Strides are in floats. std140 rounds every array stride up to a vec4; std430 and WGSL only
+    // align to the vector itself, which is 8 bytes for a vec2 and 16 bytes for a vec3 or vec4.
+    // HLSL starts every vector on a new register, but lets the next member use the end of the last one.
+    const stride = (rule === 'std430' || rule === 'wgsl') && vectorLength === 2 ? 2 : 4;
+    const size = rule === 'hlsl' ? (numVectors - 1) * stride + vectorLength : numVectors * stride;
+
+    const slots: GpuSlot[] = [];
+    const totalSlots = Math.ceil(size / 4) * 4;
+    for (let n = 0; n < totalSlots; n++) {
+        const vector = Math.floor(n / stride), component = n % stride;
+        if (n >= size)
+            slots.push({ kind: 'free' });
+        else if (component >= vectorLength)
+            slots.push({ kind: 'padding' });
+        else
+            slots.push({ kind: 'element', i: byRow ? vector : component, j: byRow ? component : vector });
+    }
+
+    const glslType = rows === columns ? `mat${rows}` : `mat${columns}x${rows}`;
+    let declaration: string;
+    let indexing: (i: number, j: number) => string;
+    if (rule === 'std140' || rule === 'std430') {
+        const block = rule === 'std140' ? 'uniform' : 'buffer';
+        const qualifier = byRow ? 'layout(row_major) ' : '';
+        declaration = `layout(${rule}) ${block} Block {\n    ${qualifier}${glslType} m;\n};`;
+        indexing = (i, j) => `m[${j}][${i}]`;
+    } else if (rule === 'wgsl') {
+        declaration = `@group(0) @binding(0)\nvar<uniform> m: mat${columns}x${rows}<f32>;`;
+        indexing = (i, j) => `m[${j}][${i}]`;
+    } else {
+        declaration = `cbuffer Block {\n    ${byRow ? 'row_major' : 'column_major'} float${rows}x${columns} m;\n};`;
+        indexing = (i, j) => `m[${i}][${j}]`;
+    }
+
+    return { declaration, indexing, stride: stride * 4, size: size * 4, slots };
+}
+
+class GpuLayoutDiagram {
     public elem: HTMLElement;
+    public selection: HoverSelection;
+    public matrices: NamedMatrix[];
+
+    constructor(matrix: Matrix, rule: GpuLayoutRule, packing: Packing, public formatter: NumberFormatter = defaultFormatter) {
+        this.matrices = [{ name: 'm', matrix }];
+        const layout = computeGpuLayout(matrix.rows, matrix.columns, rule, packing);
+        const byRow = packing === 'row-major';
+        const color = byRow ? highlightRow : highlightColumn;
 
-    constructor() {
         this.elem = document.createElement('div');
         this.elem.style.display = 'flex';
-        this.elem.style.gap = `1em`;
-        this.elem.style.margin = `1em`;
+        this.elem.style.margin = `2em`;
+        this.elem.style.gap = `2em`;
+        this.elem.style.flexDirection = 'column';
+
+        const topRow = document.createElement('div');
+        topRow.style.display = `flex`;
+        topRow.style.gap = `2em`;
+        topRow.style.flexGrow = `1`;
+        this.elem.appendChild(topRow);
+
+        const left = document.createElement('div');
+        left.style.placeSelf = 'center';
+        left.style.display = 'flex';
+        left.style.flexDirection = 'column';
+        left.style.gap = '1em';
+        left.style.fontSize = `90%`;
+        topRow.appendChild(left);
+
+        const code = document.createElement('div');
+        code.style.whiteSpace = `pre`;
+        code.style.lineHeight = '1.5em';
+        code.textContent = `${layout.declaration}\n// ${byRow ? 'row' : 'column'} stride ${layout.stride} bytes, size ${layout.size} bytes`;
+        left.appendChild(code);
+
+        // The buffer, 16 bytes to a line.
+        const memory = document.createElement('div');
+        memory.style.display = 'grid';
+        memory.style.gridTemplateColumns = `auto repeat(4, 3em)`;
+        memory.style.gap = '0.3em';
+        left.appendChild(memory);
+
+        const slotElems: HTMLElement[] = [];
+        layout.slots.forEach((slot, n) => {
+            if (n % 4 === 0) {
+                const offset = textDiv(`${n * 4}`);
+                offset.style.fontSize = '70%';
+                offset.style.opacity = '0.6';
+                offset.style.placeSelf = 'center end';
+                memory.appendChild(offset);
+            }
+
+            const elem = document.createElement('div');
+            elem.style.textAlign = 'center';
+            elem.style.padding = '0.2em 0';
+            elem.style.borderRadius = '0.4em';
+            elem.style.border = '2px solid transparent';
+            elem.style.touchAction = 'manipulation';
+            if (slot.kind === 'element') {
+                elem.textContent = formatter.format(matrix.getV(slot.i, slot.j), matrix.getInput(slot.i, slot.j));
+                elem.style.borderColor = 'var(--muted)';
+                elem.onpointerover = () => { this.selection.hover(slot.i, slot.j); };
+                elem.onclick = () => { this.selection.toggle(slot.i, slot.j); };
+            } else if (slot.kind === 'padding') {
+                elem.textContent = `pad`;
+                elem.style.fontSize = '70%';
+                elem.style.placeContent = 'center';
+                elem.style.opacity = '0.6';
+                elem.style.borderStyle = 'dashed';
+                elem.style.borderColor = 'var(--muted)';
+                elem.style.background = `repeating-linear-gradient(45deg, var(--faint) 0 0.3em, transparent 0.3em 0.6em)`;
+                elem.onpointerover = () => { this.selection.hover(-1, -1); showSlot(n); };
+            } else {
+                elem.style.borderStyle = 'dotted';
+                elem.style.borderColor = 'var(--faint)';
+                elem.onpointerover = () => { this.selection.hover(-1, -1); showSlot(n); };
+            }
+            elem.onpointerout = () => { this.selection.hover(-1, -1); };
+            slotElems.push(elem);
+            memory.appendChild(elem);
+        });
+
+        topRow.appendChild(textDiv(`=`));
+
+        const matrixDisplay = new MatrixDisplay(matrix, formatter);
+        matrixDisplay.setName('m');
+        matrixDisplay.elem.style.flexGrow = `1`;
+        topRow.appendChild(matrixDisplay.elem);
+
+        const explanationText = document.createElement('div');
+        explanationText.style.placeSelf = `center`;
+        explanationText.style.lineHeight = '1em';
+        explanationText.setAttribute('role', 'status');
+        explanationText.setAttribute('aria-live', 'polite');
+        explanationText.textContent = ` `;
+        this.elem.appendChild(explanationText);
+
+        const bytes = (n: number) => `bytes ${n * 4}–${n * 4 + 3}`;
+        const showSlot = (n: number) => {
+            const slot = layout.slots[n];
+            if (slot.kind === 'element')
+                explanationText.textContent = `${bytes(n)}: ${layout.indexing(slot.i, slot.j)} = ${formatter.format(matrix.getV(slot.i, slot.j), matrix.getInput(slot.i, slot.j))}`;
+            else if (slot.kind === 'padding')
+                explanationText.textContent = `${bytes(n)}: padding`;
+            else
+                explanationText.textContent = `${bytes(n)}: not part of the matrix; the next member can be packed here`;
+        };
+
+        const setSelected = (i: number, j: number) => {
+            const vector = byRow ? i : j;
+            layout.slots.forEach((slot, n) => {
+                const elem = slotElems[n];
+                if (slot.kind !== 'element' || vector < 0)
+                    elem.style.backgroundColor = '';
+                else if (slot.i === i && slot.j === j)
+                    elem.style.backgroundColor = highlightCell;
+                else if ((byRow ? slot.i : slot.j) === vector)
+                    elem.style.backgroundColor = color;
+                else
+                    elem.style.backgroundColor = '';
+
+                if (slot.kind === 'element' && slot.i === i && slot.j === j)
+                    showSlot(n);
+            });
+
+            if (byRow)
+                matrixDisplay.setRowHighlight(i, color);
+            else
+                matrixDisplay.setColumnHighlight(j, color);
+            matrixDisplay.setCellHighlight(i, j, highlightCell);
+
+            if (i < 0)
+                explanationText.textContent = ` `;
+        };
+
+        this.selection = new HoverSelection(setSelected, (i, j) => inRange(i, matrix.rows) && inRange(j, matrix.columns));
+        matrixDisplay.onhover = (i, j) => { this.selection.hover(i, j); };
+        matrixDisplay.onclicked = (i, j) => { this.selection.toggle(i, j); };
+    }
+}
+
+// What a matrix does to space. Vectors are columns here, transformed as M·v, so each column of a
+// matrix is where one of the basis vectors ends up. 3x3 and 4x4 matrices are homogeneous, for 2D
+// and 3D, with the translation in their last column.
+
+type Point3 = [number, number, number];
+
+// Where a point ends up, or null if it goes to or behind w = 0.
+function transformPoint(m: Matrix, p: Point3): Point3 | null {
+    const v = p.slice(0, m.rows === 4 ? 3 : 2);
+    if (m.rows > 2)
+        v.push(1);
+
+    const r: number[] = [];
+    for (let i = 0; i < m.rows; i++) {
+        let sum = 0;
+        for (let j = 0; j < m.columns; j++)
+            sum += m.getV(i, j) * v[j];
+        r.push(sum);
+    }
+
+    if (m.rows === 2)
+        return [r[0], r[1], 0];
+
+    const w = r[m.rows - 1];
+    if (w <= 1e-6)
+        return null;
+    return [r[0] / w, r[1] / w, m.rows === 4 ? r[2] / w : 0];
+}
+
+// An F, since it looks different from every side, in the z = 0 plane.
+const transformShape: Point3[] = [
+    [0, 0, 0], [0.25, 0, 0], [0.25, 0.45, 0], [0.55, 0.45, 0], [0.55, 0.65, 0],
+    [0.25, 0.65, 0], [0.25, 0.8, 0], [0.7, 0.8, 0], [0.7, 1, 0], [0, 1, 0],
+];
+
+function unitCubeEdges(): [Point3, Point3][] {
+    const corner = (n: number): Point3 => [n & 1, (n >> 1) & 1, (n >> 2) & 1];
+    const r: [Point3, Point3][] = [];
+    for (let n = 0; n < 8; n++)
+        for (const bit of [1, 2, 4])
+            if ((n & bit) === 0)
+                r.push([corner(n), corner(n | bit)]);
+    return r;
+}
+
+// The basis vectors are drawn in the row, cell and column highlights, which the themes already
+// keep apart from each other.
+const transformAxisColors = ['--highlight-row', '--highlight-cell', '--highlight-column'];
+
+interface TransformPreset {
+    value: string;
+    label: string;
+    // 2D transforms use the top left of this.
+    linear: number[][];
+    translation: Point3;
+}
+
+const transformPresets: TransformPreset[] = [
+    { value: 'identity', label: 'Identity', linear: [[1, 0, 0], [0, 1, 0], [0, 0, 1]], translation: [0, 0, 0] },
+    {
+        value: 'rotate', label: 'Rotate 30°', translation: [0, 0, 0],
+        linear: [[Math.cos(Math.PI / 6), -Math.sin(Math.PI / 6), 0], [Math.sin(Math.PI / 6), Math.cos(Math.PI / 6), 0], [0, 0, 1]],
+    },
+    { value: 'scale', label: 'Scale', linear: [[1.5, 0, 0], [0, 0.5, 0], [0, 0, 1]], translation: [0, 0, 0] },
+    { value: 'shear', label: 'Shear', linear: [[1, 0.5, 0], [0, 1, 0], [0, 0, 1]], translation: [0, 0, 0] },
+    { value: 'reflect', label: 'Reflect x', linear: [[-1, 0, 0], [0, 1, 0], [0, 0, 1]], translation: [0, 0, 0] },
+    // Only homogeneous matrices can translate.
+    { value: 'translate', label: 'Translate', linear: [[1, 0, 0], [0, 1, 0], [0, 0, 1]], translation: [1, 0.5, 0] },
+];
+
+function rowName(i: number): string {
+    return `R${toSubscript(i + 1)}`;
+}
+
+// Inverting a matrix by row-reducing [A | I] until the left half is I, at which point the right
+// half is A⁻¹. Each step is one elementary row operation, with its pivot and rows highlighted. A
+// singular matrix runs out of pivots, and stops there.
+class RowReductionDiagram {
+    public elem: HTMLElement;
+    private display: MatrixDisplay;
+    private explanationText: HTMLElement;
+    private stepText: HTMLElement;
+    private backButton: HTMLButtonElement;
+    private stepButton: HTMLButtonElement;
+    // What's shown, which each step recomputes from the start in double precision.
+    private augmented: Matrix;
+    private start: Float64Array;
+    private startInputs: Map<number, number>;
+    private operations: RowOperation[];
+    private failure: { column: number, row: number } | null;
+    private step = 0;
+    public matrices: NamedMatrix[];
+    public frames: () => Iterable<string>;
+
+    constructor(a: Matrix, public formatter: NumberFormatter = defaultFormatter) {
+        const identity = new Matrix(a.rows, a.columns);
+        identity.identity();
+        this.augmented = a.augment(identity);
+        this.start = this.augmented.toFloat64();
+        this.startInputs = new Map(this.augmented.inputs);
+
+        // Only the left half matters; past that, it's singular.
+        const reduction = this.augmented.rowReduce(a.pivotTolerance());
+        const missing = reduction.missing.find((m) => m.column < a.columns);
+        this.failure = missing !== undefined ? { column: missing.column, row: missing.row } : null;
+        this.operations = reduction.operations.slice(0, missing !== undefined ? missing.step : undefined);
+
+        const inverse = a.inverse();
+        this.matrices = namedMatrices(inverse !== null ? [['a', a], ['a_inv', inverse]] : [['a', a]]);
+
+        this.elem = document.createElement('div');
+        this.elem.style.display = 'flex';
+        this.elem.style.margin = `2em`;
+        this.elem.style.gap = `2em`;
+        this.elem.style.flexDirection = 'column';
+
+        this.display = new MatrixDisplay(this.augmented, formatter);
+        this.display.setName('A augmented with I');
+        this.display.setDivider(a.columns);
+        this.display.elem.style.flexGrow = `1`;
+        this.elem.appendChild(this.display.elem);
+
+        this.explanationText = document.createElement('div');
+        this.explanationText.style.placeSelf = `center`;
+        this.explanationText.style.textAlign = `center`;
+        this.explanationText.style.fontSize = `80%`;
+        this.explanationText.setAttribute('role', 'status');
+        this.explanationText.setAttribute('aria-live', 'polite');
+        this.elem.appendChild(this.explanationText);
+
+        const summary = textDiv(`det A = ${formatter.format(Math.fround(a.determinant()))}, rank ${a.rank()}`);
+        summary.style.fontSize = `60%`;
+        this.elem.appendChild(summary);
+
+        const controls = document.createElement('div');
+        controls.style.placeSelf = `center`;
+        controls.style.display = `flex`;
+        controls.style.alignItems = `center`;
+        controls.style.gap = `1em`;
+        controls.appendChild(button(`⏮ Reset`, () => { this.showStep(0); }));
+        this.backButton = button(`◀ Back`, () => { this.showStep(this.step - 1); });
+        controls.appendChild(this.backButton);
+        this.stepButton = button(`⏭ Step`, () => { this.showStep(this.step + 1); });
+        controls.appendChild(this.stepButton);
+        this.stepText = document.createElement('div');
+        this.stepText.style.fontSize = `70%`;
+        controls.appendChild(this.stepText);
+        this.elem.appendChild(controls);
+
+        this.frames = () => this.stepFrames();
+        this.showStep(0);
+    }
+
+    // One frame for each step.
+    private *stepFrames(): Iterable<string> {
+        const saved = this.step;
+        try {
+            for (let n = 0; n <= this.lastStep(); n++) {
+                this.showStep(n);
+                yield `step${n}`;
+            }
+        } finally {
+            this.showStep(saved);
+        }
+    }
+
+    // The operations, then where it ended up: [I | A⁻¹], or the column without a pivot.
+    private lastStep(): number {
+        return this.operations.length + 1;
+    }
+
+    private showStep(n: number): void {
+        n = Math.min(Math.max(n, 0), this.lastStep());
+        this.step = n;
+
+        const values = this.start.slice();
+        for (const op of this.operations.slice(0, n))
+            applyRowOperation(values, this.augmented.columns, op);
+        this.augmented.set(values);
+        // Only the starting values were typed in; after that, they're all computed.
+        this.augmented.inputs = n === 0 ? new Map(this.startInputs) : new Map();
+        this.display.update();
+
+        const display = this.display;
+        display.setCellHighlight(-1, -1, '');
+        display.setColumnHighlight(-1, '');
+        display.setRowHighlight(-1, '');
+        display.setSecondRowHighlight(-1, '');
+        this.explanationText.style.color = '';
+
+        // The factors are doubles, but are shown like everything else.
+        const f = (v: number) => this.formatter.format(Math.fround(v));
+        const op = n > 0 && n <= this.operations.length ? this.operations[n - 1] : null;
+        let text: string;
+        if (n === 0) {
+            text = `Row-reduce [A | I]. Once the left half is I, the right half is A⁻¹.`;
+        } else if (op !== null) {
+            const [pivotRow, pivotColumn] = op.pivot;
+            display.setCellHighlight(pivotRow, pivotColumn, highlightCell);
+            display.setRowHighlight(op.row, highlightRow);
+            if (op.kind === 'swap') {
+                display.setSecondRowHighlight(op.other, highlightRow);
+                text = `Swap ${rowName(op.row)} and ${rowName(op.other)}, to bring the largest value in column ${pivotColumn + 1} up as the pivot`;
+            } else if (op.kind === 'scale') {
+                text = `${rowName(op.row)} ← ${rowName(op.row)} ÷ ${f(1 / op.factor)}, to make the pivot 1`;
+            } else {
+                display.setSecondRowHighlight(op.other, highlightColumn);
+                text = `${rowName(op.row)} ← ${rowName(op.row)} ${op.factor < 0 ? '−' : '+'} ${f(Math.abs(op.factor))} × ${rowName(op.other)}, to clear column ${pivotColumn + 1}`;
+            }
+        } else if (this.failure !== null) {
+            const { column, row } = this.failure;
+            display.setColumnHighlight(column, highlightRow);
+            this.explanationText.style.color = 'var(--error)';
+            text = `Column ${column + 1} has no pivot: from ${rowName(row)} down it's all 0, so it's a combination of the columns before it. ` +
+                `A is singular, and has no inverse.`;
+        } else {
+            text = `The left half is I, so the right half is A⁻¹.`;
+        }
+
+        this.explanationText.textContent = text;
+        this.stepText.textContent = `${n} / ${this.lastStep()}`;
+        this.backButton.disabled = n === 0;
+        this.stepButton.disabled = n === this.lastStep();
+    }
+}
+
+// Which row or column a cofactor expansion runs along.
+type ExpansionLine = { kind: 'row' | 'column', index: number };
+
+// The determinant by Laplace expansion along a row or column: each entry times its cofactor, the
+// determinant of what's left once its row and column are crossed out, with alternating signs.
+class CofactorDiagram {
+    public elem: HTMLElement;
+    private display: MatrixDisplay;
+    private minorElem: HTMLElement;
+    private explanationText: HTMLElement;
+    private line: ExpansionLine;
+    private cofactors: number[] = [];
+    public selection: HoverSelection;
+    public matrices: NamedMatrix[];
+
+    constructor(private a: Matrix, line: ExpansionLine, public formatter: NumberFormatter = defaultFormatter) {
+        this.line = line;
+        this.matrices = namedMatrices([['a', a]]);
+
+        this.elem = document.createElement('div');
+        this.elem.style.display = 'flex';
+        this.elem.style.margin = `2em`;
+        this.elem.style.gap = `2em`;
+        this.elem.style.flexDirection = 'column';
+
+        const topRow = document.createElement('div');
+        topRow.style.display = `flex`;
+        topRow.style.alignItems = `center`;
+        topRow.style.gap = `1em`;
+        topRow.style.flexGrow = `1`;
+
+        topRow.appendChild(textDiv(`det`));
+
+        this.display = new MatrixDisplay(a, formatter);
+        this.display.setName('A');
+        this.display.elem.style.flexGrow = `1`;
+        this.display.elem.style.alignSelf = `stretch`;
+        topRow.appendChild(this.display.elem);
+
+        this.minorElem = document.createElement('div');
+        this.minorElem.style.display = 'flex';
+        this.minorElem.style.alignItems = 'center';
+        this.minorElem.style.gap = '0.5em';
+        this.minorElem.style.fontSize = '60%';
+        topRow.appendChild(this.minorElem);
+
+        this.elem.appendChild(topRow);
+
+        this.explanationText = document.createElement('div');
+        this.explanationText.style.placeSelf = `center`;
+        this.explanationText.style.lineHeight = '1em';
+        this.explanationText.setAttribute('role', 'status');
+        this.explanationText.setAttribute('aria-live', 'polite');
+        this.elem.appendChild(this.explanationText);
+
+        const lines: { value: string, label: string }[] = [];
+        for (const kind of ['row', 'column'] as const)
+            for (let n = 0; n < a.rows; n++)
+                lines.push({ value: `${kind[0]}${n + 1}`, label: `Along ${kind} ${n + 1}` });
+        const along = select(lines, (v) => {
+            this.selection.unpin();
+            this.line = { kind: v[0] === 'r' ? 'row' : 'column', index: parseInt(v.slice(1), 10) - 1 };
+            this.update();
+        });
+        along.value = `${line.kind[0]}${line.index + 1}`;
+        along.setAttribute('aria-label', 'Expand along');
+        along.style.fontSize = '60%';
+        along.style.placeSelf = 'center';
+        this.elem.appendChild(along);
+
+        this.selection = new HoverSelection((i, j) => this.showTerm(i, j), (i, j) => this.isOnLine(i, j) || (i === -1 && j === -1));
+
+        this.display.onhover = (i, j) => {
+            if (this.isOnLine(i, j) || i < 0)
+                this.selection.hover(i, j);
+        };
+        this.display.onclicked = (i, j) => {
+            if (this.isOnLine(i, j))
+                this.selection.toggle(i, j);
+        };
+
+        this.update();
+    }
+
+    private isOnLine(i: number, j: number): boolean {
+        return i >= 0 && j >= 0 && (this.line.kind === 'row' ? i === this.line.index : j === this.line.index);
+    }
+
+    // The entry of the line that's kth along it.
+    private entry(k: number): [number, number] {
+        return this.line.kind === 'row' ? [this.line.index, k] : [k, this.line.index];
+    }
+
+    private minor(i: number, j: number): Matrix {
+        const others = (n: number) => allIndices(this.a.rows).filter((m) => m !== n);
+        return subMatrix(this.a, others(i), others(j)) as Matrix;
+    }
+
+    private update(): void {
+        this.cofactors = allIndices(this.a.rows).map((k) => {
+            const [i, j] = this.entry(k);
+            return ((i + j) % 2 === 0 ? 1 : -1) * this.minor(i, j).determinant();
+        });
+        this.showTerm(-1, -1);
+    }
+
+    // Everything up to entry (i, j) of the line, or the whole expansion if nothing is picked.
+    private showTerm(i: number, j: number): void {
+        const a = this.a;
+
+        // Doubles, shown like everything else.
+        const f = (v: number) => this.formatter.format(Math.fround(v));
+        const e = (i: number, j: number) => formatEntry(a, i, j, this.formatter, true);
+        const explain = (k: number) => {
+            const terms: string[] = [];
+            for (let n = 0; n <= k; n++)
+                terms.push(`(${e(...this.entry(n))} × ${f(this.cofactors[n])})`);
+            const determinant = this.cofactors.reduce((sum, c, n) => sum + a.getV(...this.entry(n)) * c, 0);
+            this.explanationText.textContent = k < a.rows - 1 ? `${terms.join(' + ')} + …` : `${terms.join(' + ')} = ${f(determinant)}`;
+        };
+
+        removeAll(this.minorElem);
+        if (i < 0) {
+            this.display.setCellHighlight(-1, -1, highlightCell);
+            this.display.setStruckOut(-1, -1);
+            explain(a.rows - 1);
+            return;
+        }
+
+        const k = this.line.kind === 'row' ? j : i;
+        this.display.setCellHighlight(i, j, highlightCell);
+        this.display.setStruckOut(i, j);
+
+        const name = `${toSubscript(i + 1)}${toSubscript(j + 1)}`;
+        this.minorElem.appendChild(textDiv(`C${name} = (−1)${toSuperscript(i + j + 2)} × det`));
+        const minorDisplay = new MatrixDisplay(this.minor(i, j), this.formatter);
+        minorDisplay.setName(`The minor of row ${i + 1}, column ${j + 1}`);
+        this.minorElem.appendChild(minorDisplay.elem);
+        this.minorElem.appendChild(textDiv(`= ${f(this.cofactors[k])}`));
+        explain(k);
+    }
+}
+
+// A canvas for drawing transforms on. Each drawing starts with begin(), which zooms to fit the
+// points it's given; the canvas is taken out of the flow, so it follows the layout's size rather
+// than setting it.
+class TransformCanvas {
+    public elem: HTMLElement;
+    private canvas: HTMLCanvasElement;
+    private ctx: CanvasRenderingContext2D | null = null;
+    private width = 0;
+    private height = 0;
+    private zoom = 1;
+    private center: [number, number] = [0, 0];
+    private resizeObserver: ResizeObserver;
+
+    constructor(label: string, draw: () => void) {
+        this.elem = document.createElement('div');
+        this.elem.style.position = 'relative';
+        this.elem.style.flexGrow = '1';
+        this.elem.style.minWidth = '8em';
+        this.elem.style.minHeight = '8em';
+
+        this.canvas = document.createElement('canvas');
+        this.canvas.style.position = 'absolute';
+        this.canvas.style.width = '100%';
+        this.canvas.style.height = '100%';
+        this.canvas.setAttribute('role', 'img');
+        this.canvas.setAttribute('aria-label', label);
+        this.elem.appendChild(this.canvas);
+
+        // Likewise, stop once the diagram it's in has been replaced.
+        this.resizeObserver = new ResizeObserver(() => {
+            if (!this.canvas.isConnected) {
+                this.resizeObserver.disconnect();
+                return;
+            }
+            draw();
+        });
+        this.resizeObserver.observe(this.canvas);
+    }
+
+    // A cabinet projection, with z going back down and to the left.
+    private project(p: Point3): [number, number] {
+        return [p[0] - p[2] * 0.35, p[1] - p[2] * 0.35];
+    }
+
+    private toScreen(p: Point3): [number, number] {
+        const [x, y] = this.project(p);
+        return [this.width / 2 + (x - this.center[0]) * this.zoom, this.height / 2 - (y - this.center[1]) * this.zoom];
+    }
+
+    // Returns false if there's nowhere to draw yet. Anything thrown off towards infinity by a
+    // perspective divide is left out of the fit.
+    public begin(fit: (Point3 | null)[]): boolean {
+        this.width = this.canvas.clientWidth;
+        this.height = this.canvas.clientHeight;
+        this.ctx = this.width > 0 && this.height > 0 ? this.canvas.getContext('2d') : null;
+        if (this.ctx === null)
+            return false;
+
+        const pixelRatio = window.devicePixelRatio;
+        this.canvas.width = Math.round(this.width * pixelRatio);
+        this.canvas.height = Math.round(this.height * pixelRatio);
+        this.ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+
+        const points = fit.filter((p): p is Point3 => p !== null && p.every((v) => Math.abs(v) < 1e3)).map((p) => this.project(p));
+        const xs = points.map((p) => p[0]), ys = points.map((p) => p[1]);
+        const minX = Math.min(...xs), maxX = Math.max(...xs), minY = Math.min(...ys), maxY = Math.max(...ys);
+        this.zoom = 0.9 * Math.min(this.width / (maxX - minX), this.height / (maxY - minY));
+        this.center = [(minX + maxX) / 2, (minY + maxY) / 2];
+        return true;
+    }
+
+    public lines(segments: [Point3 | null, Point3 | null][], color: string, lineWidth: number): void {
+        const ctx = this.ctx!;
+        ctx.beginPath();
+        for (const [from, to] of segments) {
+            if (from === null || to === null)
+                continue;
+            ctx.moveTo(...this.toScreen(from));
+            ctx.lineTo(...this.toScreen(to));
+        }
+        ctx.strokeStyle = color;
+        ctx.lineWidth = lineWidth;
+        ctx.stroke();
+    }
+
+    // The unit grid in the z = 0 plane.
+    public grid(f: (p: Point3) => Point3 | null, color: string): void {
+        const segments: [Point3 | null, Point3 | null][] = [];
+        for (let k = -10; k <= 10; k++) {
+            segments.push([f([k, -10, 0]), f([k, 10, 0])]);
+            segments.push([f([-10, k, 0]), f([10, k, 0])]);
+        }
+        this.lines(segments, color, 1);
+    }
+
+    public shape(points: (Point3 | null)[], fill: string, stroke: string | null): void {
+        if (points.some((p) => p === null))
+            return;
+
+        const ctx = this.ctx!;
+        ctx.beginPath();
+        for (const p of points)
+            ctx.lineTo(...this.toScreen(p!));
+        ctx.closePath();
+        ctx.fillStyle = fill;
+        ctx.fill();
+        if (stroke !== null) {
+            ctx.strokeStyle = stroke;
+            ctx.lineWidth = 2;
+            ctx.stroke();
+        }
+    }
+
+    public arrow(from: Point3 | null, to: Point3 | null, color: string, lineWidth: number, dashed: boolean = false): void {
+        if (from === null || to === null)
+            return;
+
+        const ctx = this.ctx!;
+        const [x0, y0] = this.toScreen(from), [x1, y1] = this.toScreen(to);
+        const angle = Math.atan2(y1 - y0, x1 - x0), head = 4 + 2 * lineWidth;
+        ctx.beginPath();
+        ctx.moveTo(x0, y0);
+        ctx.lineTo(x1, y1);
+        ctx.setLineDash(dashed ? [6, 4] : []);
+        ctx.strokeStyle = color;
+        ctx.lineWidth = lineWidth;
+        ctx.stroke();
+        ctx.setLineDash([]);
+        ctx.beginPath();
+        ctx.moveTo(x1, y1);
+        ctx.lineTo(x1 - head * Math.cos(angle - 0.4), y1 - head * Math.sin(angle - 0.4));
+        ctx.lineTo(x1 - head * Math.cos(angle + 0.4), y1 - head * Math.sin(angle + 0.4));
+        ctx.closePath();
+        ctx.fillStyle = color;
+        ctx.fill();
+    }
+}
+
+// An editable transform next to a drawing of the unit grid, the basis vectors and a shape, before
+// (faintly) and after. Hovering a column picks out the basis vector it moves.
+class TransformDiagram {
+    public elem: HTMLElement;
+    private display: MatrixDisplay;
+    private view: TransformCanvas;
+    private highlighted = -1;
+    public selection: HoverSelection;
+    public matrices: NamedMatrix[];
+
+    constructor(private matrix: Matrix, public formatter: NumberFormatter = defaultFormatter) {
+        const m = matrix;
+        const dimensions = m.rows === 4 ? 3 : 2;
+        this.matrices = namedMatrices([['m', m]]);
+
+        this.elem = document.createElement('div');
+        this.elem.style.display = 'flex';
+        this.elem.style.gap = `2em`;
+        this.elem.style.margin = `2em`;
+
+        const left = document.createElement('div');
+        left.style.display = 'flex';
+        left.style.flexDirection = 'column';
+        left.style.gap = '1em';
+        left.style.flexGrow = '1';
+
+        this.display = new MatrixDisplay(m, formatter);
+        this.display.setName('M');
+        this.display.editable = true;
+        this.display.elem.style.flexGrow = `1`;
+        left.appendChild(this.display.elem);
+
+        const presetOptions = transformPresets.filter((p) => m.rows > 2 || p.value !== 'translate');
+        const presets = select([{ value: '', label: 'Presets…' }, ...presetOptions.map(({ value, label }) => ({ value, label }))], (v) => {
+            const preset = transformPresets.find((p) => p.value === v);
+            if (preset !== undefined)
+                this.applyPreset(preset);
+            presets.value = '';
+        });
+        presets.setAttribute('aria-label', 'Presets');
+        presets.style.fontSize = '60%';
+        presets.style.alignSelf = 'start';
+        left.appendChild(presets);
+
+        this.elem.appendChild(left);
+
+        this.view = new TransformCanvas(`The unit grid, basis vectors and a shape, before and after being transformed by M`, () => this.draw());
+        this.elem.appendChild(this.view.elem);
+
+        this.selection = new HoverSelection((i, j) => {
+            this.display.setColumnHighlight(j, j < dimensions ? `var(${transformAxisColors[j]})` : 'var(--muted)');
+            this.highlighted = j;
+            this.draw();
+        }, (i, j) => i === -1 && inRange(j, m.columns));
+
+        this.display.onhover = (i, j) => { this.selection.hover(-1, j); };
+        this.display.onclicked = (i, j) => { this.selection.toggle(-1, j); };
+        this.display.onedit = () => { this.draw(); };
+    }
+
+    public retheme(): void {
+        this.draw();
+    }
+
+    private applyPreset(preset: TransformPreset): void {
+        const m = this.matrix;
+        const dimensions = m.rows === 4 ? 3 : 2;
+        for (let i = 0; i < m.rows; i++) {
+            for (let j = 0; j < m.columns; j++) {
+                if (i < dimensions)
+                    m.setInput(i, j, j < dimensions ? preset.linear[i][j] : preset.translation[i]);
+                else
+                    m.setInput(i, j, j === dimensions ? 1 : 0);
+            }
+        }
+        this.display.update();
+        this.draw();
+    }
+
+    private draw(): void {
+        const m = this.matrix;
+        const dimensions = m.rows === 4 ? 3 : 2;
+        const transform = (p: Point3) => transformPoint(m, p);
+        const same = (p: Point3) => p;
+        const edges = dimensions === 3 ? unitCubeEdges() : [];
+        const basis: Point3[] = [[1, 0, 0], [0, 1, 0], [0, 0, 1]].slice(0, dimensions) as Point3[];
+        const origin: Point3 = [0, 0, 0];
+
+        // The shape before and after, and a little of the grid around the origin.
+        const fit: Point3[] = [[-2, -2, 0], [2, 2, 0], ...transformShape, ...basis, ...edges.flat()];
+        if (!this.view.begin([...fit, ...fit.map(transform)]))
+            return;
+
+        const faint = themeColor('--faint'), muted = themeColor('--muted'), foreground = themeColor('--foreground');
+        const view = this.view;
+
+        view.grid(same, faint);
+        view.shape(transformShape, faint, null);
+        view.lines(edges, faint, 1);
+        for (const e of basis)
+            view.arrow(origin, e, faint, 2);
+
+        view.grid(transform, muted);
+        view.shape(transformShape.map(transform), muted, foreground);
+        view.lines(edges.map(([from, to]) => [transform(from), transform(to)]), foreground, 2);
+
+        // Each basis vector now starts wherever the origin went.
+        const originAfter = transform(origin);
+        basis.forEach((e, j) => {
+            view.arrow(originAfter, transform(e), themeColor(transformAxisColors[j]), this.highlighted === j ? 6 : 3);
+        });
+        if (m.rows > 2)
+            view.arrow(origin, originAfter, foreground, this.highlighted === dimensions ? 4 : 2, true);
+    }
+}
+
+// The standard transforms, as 4x4 matrices for column vectors. Rotations are about z.
+function translationMatrix(t: Point3): Matrix {
+    const m = new Matrix(4, 4);
+    m.identity();
+    for (let i = 0; i < 3; i++)
+        m.setV(i, 3, t[i]);
+    return m;
+}
+
+function rotationMatrix(degrees: number): Matrix {
+    const c = Math.cos(degrees * Math.PI / 180), s = Math.sin(degrees * Math.PI / 180);
+    const m = new Matrix(4, 4);
+    m.identity();
+    m.setV(0, 0, c);
+    m.setV(0, 1, -s);
+    m.setV(1, 0, s);
+    m.setV(1, 1, c);
+    return m;
+}
+
+function scaleMatrix(s: Point3): Matrix {
+    const m = new Matrix(4, 4);
+    m.identity();
+    for (let i = 0; i < 3; i++)
+        m.setV(i, i, s[i]);
+    return m;
+}
+
+type VectorConvention = 'column' | 'row';
+
+// Which of T, R and S gets applied first, second and third.
+const compositionOrders = [
+    { label: 'Scale, then rotate, then translate', order: [2, 1, 0], name: 'scale_rotate_translate', color: '--highlight-row' },
+    { label: 'Translate, then rotate, then scale', order: [0, 1, 2], name: 'translate_rotate_scale', color: '--highlight-column' },
+];
+
+// The same three transforms composed in opposite orders, T·R·S and S·R·T, with a drawing of what
+// each does to a shape. Row vectors transpose every matrix, and so reverse the order they're
+// written in to do the same thing.
+class CompositionDiagram {
+    public elem: HTMLElement;
+    public matrices: NamedMatrix[] = [];
+    public onchange: (() => void) | null = null;
+    private transforms: Matrix[];
+    private content: HTMLElement;
+    private note: HTMLElement;
+    private view: TransformCanvas;
+    private choices: HTMLElement[] = [];
+
+    constructor(private translation: Point3, private degrees: number, private scale: Point3, private convention: VectorConvention, public formatter: NumberFormatter = defaultFormatter) {
+        this.transforms = [translationMatrix(translation), rotationMatrix(degrees), scaleMatrix(scale)];
+
+        this.elem = document.createElement('div');
+        this.elem.style.display = 'flex';
+        this.elem.style.flexDirection = 'column';
+        this.elem.style.margin = `2em`;
+        this.elem.style.gap = `1em`;
+
+        const toggle = document.createElement('div');
+        toggle.style.display = 'flex';
+        toggle.style.gap = '1em';
+        toggle.style.placeSelf = 'center';
+        toggle.style.fontSize = '80%';
+        toggle.setAttribute('role', 'radiogroup');
+        toggle.setAttribute('aria-label', 'Convention');
+        for (const [value, label] of [['column', 'Column vectors, M·v'], ['row', 'Row vectors, v·M']] as const) {
+            const choice = textDiv(label);
+            choice.style.fontSize = '100%';
+            choice.style.cursor = 'pointer';
+            choice.style.padding = '0.1em 0.4em';
+            choice.style.borderRadius = '0.4em';
+            choice.setAttribute('role', 'radio');
+            choice.dataset.value = value;
+            choice.tabIndex = 0;
+            choice.onclick = () => { this.setConvention(value); };
+            choice.onkeydown = (e) => {
+                if (e.key === 'Enter' || e.key === ' ') {
+                    e.preventDefault();
+                    this.setConvention(value);
+                }
+            };
+            toggle.appendChild(choice);
+            this.choices.push(choice);
+        }
+        this.elem.appendChild(toggle);
+
+        this.note = document.createElement('div');
+        this.note.style.placeSelf = 'center';
+        this.note.style.textAlign = 'center';
+        this.note.style.fontSize = '60%';
+        this.elem.appendChild(this.note);
+
+        const row = document.createElement('div');
+        row.style.display = 'flex';
+        row.style.gap = '2em';
+        row.style.flexGrow = '1';
+
+        this.content = document.createElement('div');
+        this.content.style.display = 'flex';
+        this.content.style.flexDirection = 'column';
+        this.content.style.gap = '1em';
+        this.content.style.fontSize = '60%';
+        row.appendChild(this.content);
+
+        this.view = new TransformCanvas(`A shape, and where each order of the transforms puts it`, () => this.draw());
+        row.appendChild(this.view.elem);
+        this.elem.appendChild(row);
+
+        this.update();
+    }
+
+    public retheme(): void {
+        this.draw();
+    }
+
+    public hash(): string {
+        const parts = [`compose`, `translate=${this.translation.join(',')}`, `rotate=${this.degrees}`, `scale=${this.scale.join(',')}`, `convention=${this.convention}`];
+        parts.push(...formatterToSpec(this.formatter));
+        return parts.join('/');
+    }
+
+    private setConvention(convention: VectorConvention): void {
+        if (convention === this.convention)
+            return;
+
+        this.convention = convention;
+        this.update();
+        if (this.onchange !== null)
+            this.onchange();
+    }
+
+    private update(): void {
+        const row = this.convention === 'row';
+        for (const choice of this.choices) {
+            const checked = choice.dataset.value === this.convention;
+            choice.setAttribute('aria-checked', `${checked}`);
+            choice.style.backgroundColor = checked ? highlightCell : '';
+        }
+
+        // As they'd be written in this convention.
+        const names = ['T', 'R', 'S'].map((name) => row ? `${name}ᵀ` : name);
+        const transforms = this.transforms.map((m) => row ? m.transpose() : m);
+
+        removeAll(this.note);
+        this.note.append(row
+            ? `Vectors are rows, multiplied on the left. Every matrix is transposed, and the order they're written in flips: v·Sᵀ·Rᵀ·Tᵀ = (T·R·S·v)ᵀ. `
+            : `Vectors are columns, multiplied on the right. The matrix nearest v happens first. `);
+        const link = (hash: string, text: string) => {
+            const a = document.createElement('a');
+            a.href = hash;
+            a.textContent = text;
+            a.style.color = 'inherit';
+            return a;
+        };
+        this.note.append(`Compare `, link('#4', 'a matrix times a vector'), ` with `, link('#5', 'a vector times a matrix'), `.`);
+
+        removeAll(this.content);
+        const matrixRow = document.createElement('div');
+        matrixRow.style.display = 'flex';
+        matrixRow.style.gap = '1em';
+        transforms.forEach((m, i) => {
+            matrixRow.appendChild(textDiv(`${names[i]} =`));
+            const display = new MatrixDisplay(m, this.formatter);
+            display.setName(names[i]);
+            matrixRow.appendChild(display.elem);
+        });
+        this.content.appendChild(matrixRow);
+
+        this.matrices = namedMatrices(transforms.map((m, i): [string, AnyMatrix] => [names[i].toLowerCase().replace('ᵀ', '_t'), m]));
+        for (const { label, order, name, color } of compositionOrders) {
+            // The first one applied sits next to v: on the right of column vectors, and on the
+            // left of row vectors.
+            const written = row ? order : order.slice().reverse();
+            const product = written.map((n) => transforms[n]).reduce((a, b) => a.mul(b));
+            const expression = written.map((n) => names[n]).join('·');
+            this.matrices.push({ name, matrix: product });
+
+            const heading = textDiv(label);
+            heading.style.fontSize = '100%';
+            heading.style.placeSelf = 'start';
+            heading.style.borderBottom = `4px solid var(${color})`;
+            this.content.appendChild(heading);
+
+            const productRow = document.createElement('div');
+            productRow.style.display = 'flex';
+            productRow.style.gap = '1em';
+            productRow.appendChild(textDiv(`${expression} =`));
+            const display = new MatrixDisplay(product, this.formatter);
+            display.setName(expression);
+            productRow.appendChild(display.elem);
+            this.content.appendChild(productRow);
+        }
+
+        this.draw();
+    }
+
+    private draw(): void {
+        // The drawing's the same either way, which is the point.
+        const products = compositionOrders.map(({ order }) => order.slice().reverse().map((n) => this.transforms[n]).reduce((a, b) => a.mul(b)));
+        const placed = products.map((m) => transformShape.map((p) => transformPoint(m, p)));
+        if (!this.view.begin([[-2, -2, 0], [2, 2, 0], ...transformShape, ...placed.flat()]))
+            return;
+
+        const faint = themeColor('--faint');
+        this.view.grid((p) => p, faint);
+        this.view.shape(transformShape, faint, null);
+        placed.forEach((points, i) => {
+            const color = themeColor(compositionOrders[i].color);
+            this.view.shape(points, color, color);
+        });
+    }
+}
+
+// Just a matrix, on its own.
+class MatrixDiagram {
+    public elem: HTMLElement;
+    public matrices: NamedMatrix[];
+    private matrixDisplay: MatrixView;
+
+    constructor(matrix: AnyMatrix, public formatter: NumberFormatter = defaultFormatter, display: DisplayMode = 'grid') {
+        this.elem = document.createElement('div');
+        this.elem.style.display = 'flex';
+        this.elem.style.margin = `4em`;
+
+        this.matrices = namedMatrices([['m', matrix]]);
+
+        this.matrixDisplay = createMatrixView(matrix, formatter, display);
+        this.matrixDisplay.elem.style.flexGrow = `1`;
+
+        this.elem.appendChild(this.matrixDisplay.elem);
+    }
+
+    public retheme(): void {
+        if (this.matrixDisplay instanceof MatrixHeatmap)
+            this.matrixDisplay.update();
+    }
+}
+
+class ErrorDiagram {
+    public elem: HTMLElement;
+
+    constructor(public message: string) {
+        this.elem = document.createElement('div');
+        this.elem.style.display = 'flex';
+        this.elem.style.margin = `2em`;
+        this.elem.appendChild(errorText(`Error: ${message}`));
+    }
+}
+
+// Diagrams can also be described directly in the URL hash, for linking examples from docs:
+//
+//   #mul/a=2x3:1,2,3,4,5,6/b=3x2:7,8,9,10,11,12
+//   #transpose/a=3x4
+//   #layout/a=3x4/packing=column/wrap=5
+//   #gpu/a=3x3/rule=std140/packing=column
+//   #mul/a=2x2:cos θ,-sin θ,sin θ,cos θ/b=2x1:x,y
+//   #mul/a=2x3:sym/b=3x2:sym
+//   #chain/a=2x4/b=4x1/c=1x3
+//   #matrix/a=3x4:1,7,9,1,4,1,6,0,3,8,2,3
+//   #mul/a=64x64/b=64x64
+//   #tiled/a=4x6/b=6x4/tile=2
+//   #inverse/a=3x3:2,1,1,1,3,2,1,0,0/format=fraction
+//   #cofactor/a=3x3:2,-1,0,1,3,2,0,1,4/along=c1
+//   #transform/a=3x3:1,-1,2,1,1,1,0,0,1
+//   #compose/translate=2,0,0/rotate=45/scale=2,1,1/convention=row
+//
+// Matrices are given as ROWSxCOLUMNS, optionally followed by their values in row-major order.
+// Without values, they are filled with 1, 2, 3... (continuing on from a into b). Values can be
+// symbolic, and :sym fills a matrix with symbols named after it, like a₁₁, a₁₂...
+//
+// Any diagram can also take format=auto|fraction|fixed:N|sig:N, and rounding=mark to flag
+// values that changed when they were stored as float32. Products get controls for resizing their
+// matrices, unless they're given resize=off, and view=columns|rows|outer starts them off showing
+// C as a combination of A's columns, of B's rows, or as a sum of outer products. Cofactor
+// expansions run along the first row, unless given along=rN or along=cN.
+//
+// Products and single matrices can be up to 256x256, and anything over 16x16 is drawn as a
+// heatmap; display=heatmap draws smaller ones that way too. Tiled products split their matrices
+// into 2x2 tiles, unless given tile=N.
+
+class DiagramSpecError extends Error {
+}
+
+type DiagramSpec = (
+    | { kind: 'mul', a: AnyMatrix, b: AnyMatrix, view: MulView, resizable: boolean, display: DisplayMode }
+    | { kind: 'chain', chain: AnyMatrix[] }
+    | { kind: 'transpose', a: AnyMatrix }
+    | { kind: 'layout', a: Matrix, packing: Packing, valuesPerLine: number }
+    | { kind: 'gpu', a: Matrix, rule: GpuLayoutRule, packing: Packing }
+    | { kind: 'matrix', a: AnyMatrix, display: DisplayMode }
+    | { kind: 'transform', a: Matrix }
+    | { kind: 'inverse', a: Matrix }
+    | { kind: 'cofactor', a: Matrix, line: ExpansionLine }
+    | { kind: 'tiled', a: Matrix, b: Matrix, tileSize: number }
+    | { kind: 'compose', translation: Point3, degrees: number, scale: Point3, convention: VectorConvention }
+) & { formatter: NumberFormatter };
+
+const maxSpecDimension = 16;
+// Anything bigger than the above is only shown as a heatmap.
+const maxHeatmapDimension = 256;
+
+type MatrixFill =
+    | { kind: 'sequential', start: number, byColumn: boolean }
+    | { kind: 'symbols' }
+    | { kind: 'values', values: string[] };
+
+function buildMatrix(name: string, rows: number, columns: number, fill: MatrixFill, maxDimension: number = maxSpecDimension): AnyMatrix {
+    if (rows < 1 || columns < 1 || rows > maxDimension || columns > maxDimension)
+        throw new DiagramSpecError(`Matrix ${name} must be between 1x1 and ${maxDimension}x${maxDimension}, not ${rows}x${columns}`);
+
+    const m = new Matrix(rows, columns);
+    if (fill.kind === 'sequential') {
+        for (let i = 0; i < rows; i++)
+            for (let j = 0; j < columns; j++)
+                m.setV(i, j, fill.start + (fill.byColumn ? j * rows + i : i * columns + j));
+        return m;
+    }
+
+    if (fill.kind === 'symbols') {
+        const r = new GenericMatrix(exprRing, rows, columns);
+        const separator = rows > 9 || columns > 9 ? ',' : '';
+        for (let i = 0; i < rows; i++)
+            for (let j = 0; j < columns; j++)
+                r.setV(i, j, Expr.symbol(`${name}${toSubscript(i + 1)}${separator}${toSubscript(j + 1)}`));
+        return r;
+    }
+
+    const values = fill.values;
+    if (values.length !== m.length)
+        throw new DiagramSpecError(`Matrix ${name} is ${rows}x${columns}, so needs ${m.length} values, but ${values.length} were given`);
+
+    // Stay numeric unless something needs to be symbolic.
+    if (values.every((v) => parseNumber(v) !== null)) {
+        values.forEach((v, i) => {
+            m.setInput(Math.floor(i / columns), i % columns, parseNumber(v)!);
+        });
+        return m;
+    }
+
+    const r = new GenericMatrix(exprRing, rows, columns);
+    values.forEach((v, i) => {
+        const e = Expr.parse(v);
+        if (e === null)
+            throw new DiagramSpecError(`Matrix ${name} has an invalid value "${v}"`);
+        r.values[i] = e;
+    });
+    return r;
+}
+
+function parseMatrixSpec(name: string, s: string, start: number, maxDimension: number = maxSpecDimension): AnyMatrix {
+    const match = /^(\d+)x(\d+)(?::(.*))?$/.exec(s);
+    if (match === null)
+        throw new DiagramSpecError(`Matrix ${name} should look like 2x3 or 2x3:1,2,3,4,5,6, not "${s}"`);
+
+    const rows = parseInt(match[1], 10), columns = parseInt(match[2], 10);
+    if (match[3] === undefined)
+        return buildMatrix(name, rows, columns, { kind: 'sequential', start, byColumn: false }, maxDimension);
+    else if (match[3] === 'sym')
+        return buildMatrix(name, rows, columns, { kind: 'symbols' }, maxDimension);
+    else
+        return buildMatrix(name, rows, columns, { kind: 'values', values: match[3].split(',') }, maxDimension);
+}
+
+// The other way, with every value written out. Null if one of them can't be, like the symbols :sym
+// gives matrices over 9x9, which have commas in.
+function matrixToSpec(m: AnyMatrix): string | null {
+    const values: string[] = [];
+    for (let i = 0; i < m.rows; i++)
+        for (let j = 0; j < m.columns; j++)
+            values.push(entrySource(m, i, j));
+    if (values.some((v) => /[,/%]/.test(v)))
+        return null;
+    return `${m.rows}x${m.columns}:${values.join(',')}`;
+}
+
+function numericMatrix(m: AnyMatrix, kind: string): Matrix {
+    if (!(m instanceof Matrix))
+        throw new DiagramSpecError(`A ${kind} diagram needs a numeric matrix`);
+    return m;
+}
+
+// Matrices too big for a grid of numbers default to heatmaps, and can only be shown that way.
+function parseDisplaySpec(display: string | undefined, matrices: AnyMatrix[]): DisplayMode {
+    const large = matrices.some((m) => m.rows > maxSpecDimension || m.columns > maxSpecDimension);
+    const mode = display ?? (large ? 'heatmap' : 'grid');
+    if (mode !== 'grid' && mode !== 'heatmap')
+        throw new DiagramSpecError(`Display should be "grid" or "heatmap", not "${mode}"`);
+    if (mode === 'grid' && large)
+        throw new DiagramSpecError(`Matrices bigger than ${maxSpecDimension}x${maxSpecDimension} can only be shown with display=heatmap`);
+    if (mode === 'heatmap' && !matrices.every((m) => m instanceof Matrix))
+        throw new DiagramSpecError(`Heatmaps need numeric matrices`);
+    return mode;
+}
+
+function parseVectorSpec(name: string, s: string): Point3 {
+    const v = s.split(',').map(parseNumber);
+    if (v.length !== 3 || v.some((x) => x === null))
+        throw new DiagramSpecError(`The ${name} should be three numbers like 1,2,0, not "${s}"`);
+    return v as Point3;
+}
+
+function parseFormatSpec(format: string, rounding: string): NumberFormatter {
+    let notation: Notation;
+    const digits = /^(fixed|sig):(\d+)$/.exec(format);
+    if (format === 'auto') {
+        notation = { kind: 'auto' };
+    } else if (format === 'fraction') {
+        notation = { kind: 'fraction' };
+    } else if (digits !== null) {
+        const n = parseInt(digits[2], 10);
+        if (digits[1] === 'fixed' && n > 20)
+            throw new DiagramSpecError(`Fixed formats can have at most 20 decimal places, not ${n}`);
+        if (digits[1] === 'sig' && (n < 1 || n > 21))
+            throw new DiagramSpecError(`Significant digit formats need between 1 and 21 digits, not ${n}`);
+        notation = digits[1] === 'fixed' ? { kind: 'fixed', digits: n } : { kind: 'significant', digits: n };
+    } else {
+        throw new DiagramSpecError(`Format should be auto, fraction, fixed:N or sig:N, not "${format}"`);
+    }
+
+    if (rounding !== 'mark' && rounding !== 'hide')
+        throw new DiagramSpecError(`Rounding should be "mark" or "hide", not "${rounding}"`);
+
+    return new NumberFormatter(notation, rounding === 'mark');
+}
+
+// The options that give formatter, leaving out the defaults.
+function formatterToSpec(formatter: NumberFormatter): string[] {
+    const n = formatter.notation;
+    const parts: string[] = [];
+    if (n.kind === 'fixed' || n.kind === 'significant')
+        parts.push(`format=${n.kind === 'fixed' ? 'fixed' : 'sig'}:${n.digits}`);
+    else if (n.kind === 'fraction')
+        parts.push(`format=fraction`);
+    if (formatter.markRounding)
+        parts.push(`rounding=mark`);
+    return parts;
+}
+
+// Where a spec's options and matrices come from: the URL hash, or a JSON definition.
+interface SpecSource {
+    option(key: string, required: boolean): string | undefined;
+    // Matrices filled in sequence count up from start, unless told otherwise.
+    matrix(name: string, required: boolean, start: number, maxDimension?: number): AnyMatrix | undefined;
+    // Complains about anything that wasn't asked for.
+    finish(): void;
+}
+
+class HashSpecSource implements SpecSource {
+    private params = new Map<string, string>();
+
+    constructor(private kind: string, parts: string[]) {
+        for (const part of parts) {
+            const eq = part.indexOf('=');
+            if (eq < 0)
+                throw new DiagramSpecError(`Expected key=value, not "${part}"`);
+            this.params.set(part.slice(0, eq), part.slice(eq + 1));
+        }
+    }
+
+    public option(key: string, required: boolean): string | undefined {
+        const v = this.params.get(key);
+        if (v === undefined && required)
+            throw new DiagramSpecError(`A ${this.kind} diagram needs a value for "${key}"`);
+        this.params.delete(key);
+        return v;
+    }
+
+    public matrix(name: string, required: boolean, start: number, maxDimension: number = maxSpecDimension): AnyMatrix | undefined {
+        const v = this.option(name, required);
+        return v !== undefined ? parseMatrixSpec(name, v, start, maxDimension) : undefined;
+    }
+
+    public finish(): void {
+        for (const key of this.params.keys())
+            throw new DiagramSpecError(`Unknown key "${key}" for a ${this.kind} diagram`);
+    }
+}
+
+function buildDiagramSpec(kind: string, source: SpecSource): DiagramSpec {
+    const formatter = parseFormatSpec(source.option('format', false) ?? 'auto', source.option('rounding', false) ?? 'hide');
+
+    const finish = <T>(spec: T): T & { formatter: NumberFormatter } => {
+        source.finish();
+        return { ...spec, formatter };
+    };
+
+    if (kind === 'mul') {
+        const a = source.matrix('a', true, 1, maxHeatmapDimension)!;
+        const b = source.matrix('b', true, a.rows * a.columns + 1, maxHeatmapDimension)!;
+        const display = parseDisplaySpec(source.option('display', false), [a, b]);
+        const view = source.option('view', false) ?? 'dot';
+        if (!mulViews.some((v) => v.value === view))
+            throw new DiagramSpecError(`View should be dot, columns, rows or outer, not "${view}"`);
+        const resize = source.option('resize', false) ?? (display === 'grid' ? 'on' : 'off');
+        if (resize !== 'on' && resize !== 'off')
+            throw new DiagramSpecError(`Resize should be "on" or "off", not "${resize}"`);
+        if (display === 'heatmap' && (view !== 'dot' || resize === 'on' || a.columns !== b.rows))
+            throw new DiagramSpecError(`Heatmaps only show products whose sizes agree, as dot products, without resizing`);
+        return finish({ kind, a, b, view: view as MulView, resizable: resize === 'on', display });
+    } else if (kind === 'tiled') {
+        const a = numericMatrix(source.matrix('a', true, 1)!, kind);
+        const b = numericMatrix(source.matrix('b', true, a.rows * a.columns + 1)!, kind);
+        if (a.columns !== b.rows)
+            throw new DiagramSpecError(`Cannot multiply ${a.rows}x${a.columns} matrix a with ${b.rows}x${b.columns} matrix b`);
+        const tile = source.option('tile', false) ?? '2';
+        if (!/^\d+$/.test(tile) || !inRange(parseInt(tile, 10) - 1, Math.max(a.rows, a.columns, b.columns)))
+            throw new DiagramSpecError(`Tile should be a size from 1 to ${Math.max(a.rows, a.columns, b.columns)}, not "${tile}"`);
+        return finish({ kind, a, b, tileSize: parseInt(tile, 10) });
+    } else if (kind === 'chain') {
+        // a, b, c... for as long as they go.
+        const chain: AnyMatrix[] = [];
+        let start = 1;
+        for (let i = 0; i < 8; i++) {
+            const name = String.fromCharCode(97 + i);
+            const m = source.matrix(name, i < 2, start);
+            if (m === undefined)
+                break;
+            const prev = chain[chain.length - 1];
+            if (prev !== undefined && prev.columns !== m.rows)
+                throw new DiagramSpecError(`Cannot multiply ${prev.rows}x${prev.columns} matrix ${String.fromCharCode(96 + i)} with ${m.rows}x${m.columns} matrix ${name}`);
+            chain.push(m);
+            start += m.rows * m.columns;
+        }
+        return finish({ kind, chain });
+    } else if (kind === 'transpose') {
+        const a = source.matrix('a', true, 1)!;
+        return finish({ kind, a });
+    } else if (kind === 'layout') {
+        const a = numericMatrix(source.matrix('a', true, 1)!, kind);
+        const packing = source.option('packing', false) ?? 'row';
+        if (packing !== 'row' && packing !== 'column')
+            throw new DiagramSpecError(`Packing should be "row" or "column", not "${packing}"`);
+        const wrap = source.option('wrap', false) ?? `${a.columns}`;
+        if (!/^\d+$/.test(wrap) || parseInt(wrap, 10) < 1)
+            throw new DiagramSpecError(`Wrap should be a number of values per line, not "${wrap}"`);
+        return finish({ kind, a, packing: `${packing}-major`, valuesPerLine: parseInt(wrap, 10) });
+    } else if (kind === 'gpu') {
+        const a = numericMatrix(source.matrix('a', true, 1)!, kind);
+        if (a.rows < 2 || a.rows > 4 || a.columns < 2 || a.columns > 4)
+            throw new DiagramSpecError(`Shader matrix types are between 2x2 and 4x4, not ${a.rows}x${a.columns}`);
+        const rule = source.option('rule', false) ?? 'std140';
+        if (rule !== 'std140' && rule !== 'std430' && rule !== 'wgsl' && rule !== 'hlsl')
+            throw new DiagramSpecError(`Rule should be std140, std430, wgsl or hlsl, not "${rule}"`);
+        const packing = source.option('packing', false) ?? 'column';
+        if (packing !== 'row' && packing !== 'column')
+            throw new DiagramSpecError(`Packing should be "row" or "column", not "${packing}"`);
+        if (rule === 'wgsl' && packing === 'row')
+            throw new DiagramSpecError(`WGSL matrices are always column-major`);
+        return finish({ kind, a, rule, packing: `${packing}-major` });
+    } else if (kind === 'matrix') {
+        const a = source.matrix('a', true, 1, maxHeatmapDimension)!;
+        const display = parseDisplaySpec(source.option('display', false), [a]);
+        return finish({ kind, a, display });
+    } else if (kind === 'transform') {
+        const a = numericMatrix(source.matrix('a', true, 1)!, kind);
+        if (a.rows !== a.columns || a.rows < 2 || a.rows > 4)
+            throw new DiagramSpecError(`A transform is 2x2, or homogeneous 3x3 or 4x4, not ${a.rows}x${a.columns}`);
+        return finish({ kind, a });
+    } else if (kind === 'inverse') {
+        const a = numericMatrix(source.matrix('a', true, 1)!, kind);
+        if (a.rows !== a.columns)
+            throw new DiagramSpecError(`Only square matrices have inverses, not ${a.rows}x${a.columns} ones`);
+        return finish({ kind, a });
+    } else if (kind === 'cofactor') {
+        const a = numericMatrix(source.matrix('a', true, 1)!, kind);
+        if (a.rows !== a.columns || a.rows < 2 || a.rows > 4)
+            throw new DiagramSpecError(`Cofactor expansions are shown for 2x2 to 4x4 matrices, not ${a.rows}x${a.columns}`);
+        const along = source.option('along', false) ?? 'r1';
+        const m = /^([rc])(\d+)$/.exec(along);
+        if (m === null || !inRange(parseInt(m[2], 10) - 1, a.rows))
+            throw new DiagramSpecError(`Along should be a row or column of a, like r1 or c${a.rows}, not "${along}"`);
+        return finish({ kind, a, line: { kind: m[1] === 'r' ? 'row' : 'column', index: parseInt(m[2], 10) - 1 } });
+    } else if (kind === 'compose') {
+        const translation = parseVectorSpec('translation', source.option('translate', false) ?? '2,0,0');
+        const rotate = source.option('rotate', false) ?? '45';
+        const degrees = parseNumber(rotate);
+        if (degrees === null)
+            throw new DiagramSpecError(`Rotate should be a number of degrees, not "${rotate}"`);
+        const scale = parseVectorSpec('scale', source.option('scale', false) ?? '2,1,1');
+        const convention = source.option('convention', false) ?? 'column';
+        if (convention !== 'column' && convention !== 'row')
+            throw new DiagramSpecError(`Convention should be "column" or "row", not "${convention}"`);
+        return finish({ kind, translation, degrees, scale, convention });
+    } else {
+        throw new DiagramSpecError(`Unknown diagram kind "${kind}"; expected mul, tiled, chain, transpose, layout, gpu, matrix, inverse, cofactor, transform or compose`);
+    }
+}
+
+// Hashes come from anyone's links, so a stray % is just another mistake in the spec.
+function decodeHash(hash: string): string {
+    try {
+        return decodeURIComponent(hash);
+    } catch (e) {
+        if (!(e instanceof URIError))
+            throw e;
+        throw new DiagramSpecError(`"${hash}" has a % that isn't followed by two hex digits`);
+    }
+}
+
+function parseDiagramSpec(hash: string): DiagramSpec {
+    const [kind, ...parts] = hash.split('/');
+    return buildDiagramSpec(kind, new HashSpecSource(kind, parts));
+}
+
+function createDiagramFromSpec(spec: DiagramSpec): Base {
+    if (spec.kind === 'mul') {
+        return new MatrixProductDiagram(spec.a, spec.b, spec.formatter, { view: spec.view, resizable: spec.resizable, display: spec.display });
+    } else if (spec.kind === 'tiled') {
+        return new TiledMulDiagram(spec.a, spec.b, spec.tileSize, spec.formatter);
+    } else if (spec.kind === 'chain') {
+        return new MatrixChainDiagram(spec.chain, spec.formatter);
+    } else if (spec.kind === 'transpose') {
+        return new TransposeDiagram(spec.a, spec.formatter);
+    } else if (spec.kind === 'layout') {
+        return new LayoutDiagram(spec.a, spec.packing, spec.valuesPerLine, spec.formatter);
+    } else if (spec.kind === 'gpu') {
+        return new GpuLayoutDiagram(spec.a, spec.rule, spec.packing, spec.formatter);
+    } else if (spec.kind === 'transform') {
+        return new TransformDiagram(spec.a, spec.formatter);
+    } else if (spec.kind === 'inverse') {
+        return new RowReductionDiagram(spec.a, spec.formatter);
+    } else if (spec.kind === 'cofactor') {
+        return new CofactorDiagram(spec.a, spec.line, spec.formatter);
+    } else if (spec.kind === 'compose') {
+        return new CompositionDiagram(spec.translation, spec.degrees, spec.scale, spec.convention, spec.formatter);
+    } else {
+        return new MatrixDiagram(spec.a, spec.formatter, spec.display);
+    }
+}
+
+// Diagrams can also be defined in JSON, which is how the numbered ones are written; see
+// diagrams.json. A definition has a kind, its matrices by name, and the same options as the hash:
+//
+//   {
+//       "kind": "multiply",
+//       "matrices": {
+//           "a": { "rows": 2, "columns": 3 },
+//           "b": { "rows": 3, "columns": 2, "values": [1, 0, 0, 1, "x", "y"] }
+//       },
+//       "format": "fraction"
+//   }
+//
+// Kinds are multiply, mismatch (a product that can't be done), tiled, chain, transpose, layout,
+// gpu, matrix, inverse, cofactor, transform and compose, which needs no matrices. Numbered diagrams
+// show their "title" and "caption", if they have them. Matrices count up 1, 2, 3... by default,
+// continuing on from a into b like the hash does; "start" picks the first number, and "by":
+// "column" counts down the columns instead. "fill": "symbols" is the same as :sym, and "values"
+// lists them in row-major order, as numbers or expressions.
+//
+// ?diagrams=more.json loads definitions from elsewhere on this site in place of the bundled ones.
+
+interface MatrixDefinition {
+    rows: number;
+    columns: number;
+    fill?: 'sequential' | 'symbols';
+    start?: number;
+    by?: 'row' | 'column';
+    values?: (number | string)[];
+}
+
+interface DiagramDefinition {
+    kind: string;
+    title?: string;
+    caption?: string;
+    matrices: { [name: string]: MatrixDefinition };
+    // Options, like "format" or "packing".
+    [option: string]: unknown;
+}
+
+const definitionKinds: { [kind: string]: string } = {
+    'multiply': 'mul', 'mismatch': 'mul', 'chain': 'chain', 'transpose': 'transpose', 'layout': 'layout', 'gpu': 'gpu', 'matrix': 'matrix', 'transform': 'transform',
+    'inverse': 'inverse', 'cofactor': 'cofactor', 'compose': 'compose', 'tiled': 'tiled',
+};
+
+const matrixDefinitionKeys = ['rows', 'columns', 'fill', 'start', 'by', 'values'];
+
+// Definitions can be fetched, so nothing here takes the types above on trust.
+class DefinitionSpecSource implements SpecSource {
+    private unusedOptions: Set<string>;
+    private unusedMatrices: Set<string>;
+    private matrices: { [name: string]: unknown };
+
+    constructor(private definition: { [key: string]: unknown }) {
+        const matrices = definition.matrices ?? {};
+        if (!isRecord(matrices))
+            throw new DiagramSpecError(`A diagram's "matrices" should be an object, by name`);
+        this.matrices = matrices;
+
+        this.unusedOptions = new Set(Object.keys(definition).filter((key) => !['kind', 'title', 'caption', 'matrices'].includes(key)));
+        this.unusedMatrices = new Set(Object.keys(matrices));
+    }
+
+    public option(key: string, required: boolean): string | undefined {
+        const v = this.definition[key];
+        this.unusedOptions.delete(key);
+        if (v === undefined) {
+            if (required)
+                throw new DiagramSpecError(`A ${this.definition.kind} diagram needs a value for "${key}"`);
+            return undefined;
+        }
+
+        if (typeof v !== 'string' && typeof v !== 'number')
+            throw new DiagramSpecError(`Option "${key}" should be a string or a number`);
+        return `${v}`;
+    }
+
+    public matrix(name: string, required: boolean, start: number, maxDimension: number = maxSpecDimension): AnyMatrix | undefined {
+        const m = Object.hasOwn(this.matrices, name) ? this.matrices[name] : undefined;
+        this.unusedMatrices.delete(name);
+        if (m === undefined) {
+            if (required)
+                throw new DiagramSpecError(`A ${this.definition.kind} diagram needs a matrix "${name}"`);
+            return undefined;
+        }
+
+        if (!isRecord(m))
+            throw new DiagramSpecError(`Matrix ${name} should look like { "rows": 2, "columns": 3 }`);
+        for (const key of Object.keys(m))
+            if (!matrixDefinitionKeys.includes(key))
+                throw new DiagramSpecError(`Unknown key "${key}" for matrix ${name}`);
+        const { rows, columns, values, by } = m;
+        if (typeof rows !== 'number' || typeof columns !== 'number' || !Number.isInteger(rows) || !Number.isInteger(columns))
+            throw new DiagramSpecError(`Matrix ${name} needs whole numbers of rows and columns`);
+
+        let fill: MatrixFill;
+        if (values !== undefined) {
+            const isValue = (v: unknown): v is number | string => typeof v === 'number' || typeof v === 'string';
+            if (!Array.isArray(values) || !values.every(isValue))
+                throw new DiagramSpecError(`The values of matrix ${name} should be a list of numbers and expressions`);
+            if (m.fill !== undefined || m.start !== undefined || by !== undefined)
+                throw new DiagramSpecError(`Matrix ${name} has values, so can't also have a fill`);
+            fill = { kind: 'values', values: values.map((v) => `${v}`) };
+        } else if (m.fill === 'symbols') {
+            fill = { kind: 'symbols' };
+        } else if (m.fill === undefined || m.fill === 'sequential') {
+            if (m.start !== undefined && (typeof m.start !== 'number' || !Number.isFinite(m.start)))
+                throw new DiagramSpecError(`The start of matrix ${name} should be a number`);
+            if (by !== undefined && by !== 'row' && by !== 'column')
+                throw new DiagramSpecError(`Matrix ${name} should count by "row" or "column", not "${by}"`);
+            fill = { kind: 'sequential', start: typeof m.start === 'number' ? m.start : start, byColumn: by === 'column' };
+        } else {
+            throw new DiagramSpecError(`Fill should be "sequential" or "symbols", not "${m.fill}"`);
+        }
+
+        return buildMatrix(name, rows, columns, fill, maxDimension);
+    }
+
+    public finish(): void {
+        for (const key of this.unusedOptions)
+            throw new DiagramSpecError(`Unknown option "${key}" for a ${this.definition.kind} diagram`);
+        for (const name of this.unusedMatrices)
+            throw new DiagramSpecError(`A ${this.definition.kind} diagram has no matrix "${name}"`);
+    }
+}
+
+function parseDiagramDefinition(definition: unknown): DiagramSpec {
+    if (!isRecord(definition))
+        throw new DiagramSpecError(`A diagram definition should be an object`);
+
+    const kind = definition.kind;
+    if (typeof kind !== 'string' || !Object.hasOwn(definitionKinds, kind))
+        throw new DiagramSpecError(`Unknown diagram kind "${kind}"; expected multiply, mismatch, tiled, chain, transpose, layout, gpu, matrix, inverse, cofactor, transform or compose`);
+    for (const key of ['title', 'caption'])
+        if (definition[key] !== undefined && typeof definition[key] !== 'string')
+            throw new DiagramSpecError(`The ${key} should be a string`);
+
+    const spec = buildDiagramSpec(definitionKinds[kind], new DefinitionSpecSource(definition));
+
+    // The hash picks between these by shape, but a definition says which it means.
+    if (spec.kind === 'mul') {
+        const { a, b } = spec;
+        if (kind === 'multiply' && a.columns !== b.rows)
+            throw new DiagramSpecError(`A ${a.rows}x${a.columns} matrix can't be multiplied by a ${b.rows}x${b.columns} one; use "mismatch" to show that`);
+        if (kind === 'mismatch' && a.columns === b.rows)
+            throw new DiagramSpecError(`A ${a.rows}x${a.columns} matrix can be multiplied by a ${b.rows}x${b.columns} one; use "multiply"`);
+    }
+    return spec;
+}
+
+// A whole file of definitions, { "diagrams": [...] }. Everything is checked up front, so a mistake
+// shows as soon as it's loaded rather than when someone gets to that diagram.
+function checkDiagramDefinitions(json: unknown): DiagramDefinition[] {
+    const diagrams = isRecord(json) ? json.diagrams : undefined;
+    if (!Array.isArray(diagrams) || diagrams.length === 0)
+        throw new DiagramSpecError(`Expected { "diagrams": [...] } with at least one diagram`);
+
+    diagrams.forEach((d, i) => {
+        try {
+            parseDiagramDefinition(d);
+        } catch (e) {
+            if (!(e instanceof DiagramSpecError))
+                throw e;
+            throw new DiagramSpecError(`Diagram ${i + 1}: ${e.message}`);
+        }
+    });
+    return diagrams;
+}
+
+function loadDiagramDefinitions(url: string): Promise<DiagramDefinition[]> {
+    // Links can set this, so they mustn't be able to point the page at someone else's site.
+    const resolved = new URL(url, window.location.href);
+    if (resolved.origin !== window.location.origin)
+        return Promise.reject(new DiagramSpecError(`Diagrams can only be loaded from this site, not ${resolved.origin}`));
+
+    return fetch(resolved).then((response) => {
+        if (!response.ok)
+            throw new DiagramSpecError(`Could not load ${url}: ${response.status} ${response.statusText}`);
+        return response.json();
+    }).then(checkDiagramDefinitions);
+}
+
+// Source code export. Everything is generated from the row-major storage; column-major targets
+// go through transpose(), the same as the column-major layout diagrams.
+type SourceFormat = 'c-row-major' | 'c-column-major' | 'glsl' | 'hlsl-column-major' | 'hlsl-row-major' | 'wgsl' | 'typescript' | MathFormat;
+
+const sourceFormats: { format: SourceFormat, label: string }[] = [
+    { format: 'c-row-major', label: 'C (row-major)' },
+    { format: 'c-column-major', label: 'C (column-major)' },
+    { format: 'glsl', label: 'GLSL' },
+    { format: 'hlsl-column-major', label: 'HLSL' },
+    { format: 'hlsl-row-major', label: 'HLSL (row_major)' },
+    { format: 'wgsl', label: 'WGSL' },
+    { format: 'typescript', label: 'TypeScript' },
+    { format: 'latex', label: 'LaTeX' },
+    { format: 'mathml', label: 'MathML' },
+];
+
+function floatLiteral(v: number): string {
+    const s = float32ToString(v);
+    return /[.e]/.test(s) ? s : `${s}.0`;
+}
+
+// One line per row of m.
+function sourceRows(m: Matrix, literal: (v: number) => string, indent: string = `    `): string {
+    const lines: string[] = [];
+    for (let i = 0; i < m.rows; i++)
+        lines.push(`${indent}${Array.from(m.getRow(i), literal).join(', ')}`);
+    return lines.join(`,\n`);
+}
+
+function exportMatrixSource(m: Matrix, name: string, format: SourceFormat, formatter: NumberFormatter = defaultFormatter): string {
+    const size = `${m.rows}x${m.columns}`;
+    const isShaderSize = (n: number) => n >= 2 && n <= 4;
+
+    // Only TypeScript has a way to write Infinity and NaN.
+    const hasLiterals = format === 'typescript' || format === 'latex' || format === 'mathml';
+    if (!hasLiterals && !m.every((v) => Number.isFinite(v))) {
+        const label = sourceFormats.find((f) => f.format === format)!.label;
+        return `// ${name} has infinite or NaN values, which ${label} has no literal for`;
+    }
+
+    if (format === 'c-row-major') {
+        return `// ${size}, row-major\nfloat ${name}[${m.length}] = {\n${sourceRows(m, floatLiteral)},\n};`;
+    } else if (format === 'c-column-major') {
+        return `// ${size}, column-major\nfloat ${name}[${m.length}] = {\n${sourceRows(m.transpose(), floatLiteral)},\n};`;
+    } else if (format === 'glsl') {
+        // GLSL constructors take one column at a time.
+        if (m.columns === 1 && isShaderSize(m.rows))
+            return `vec${m.rows} ${name} = vec${m.rows}(${Array.from(m, floatLiteral).join(', ')});`;
+        if (!isShaderSize(m.rows) || !isShaderSize(m.columns))
+            return `// GLSL has no ${size} matrix type`;
+        const type = m.rows === m.columns ? `mat${m.rows}` : `mat${m.columns}x${m.rows}`;
+        return `// ${size}; the arguments are columns\n${type} ${name} = ${type}(\n${sourceRows(m.transpose(), floatLiteral)}\n);`;
+    } else if (format === 'hlsl-column-major' || format === 'hlsl-row-major') {
+        if (m.rows > 4 || m.columns > 4)
+            return `// HLSL has no ${size} matrix type`;
+        // Initializers are always written row by row; the qualifier only changes how it's stored.
+        const qualifier = format === 'hlsl-row-major' ? 'row_major ' : '';
+        return `// ${size}; the initializer is row by row either way\n${qualifier}float${m.rows}x${m.columns} ${name} = {\n${sourceRows(m, floatLiteral)},\n};`;
+    } else if (format === 'wgsl') {
+        if (m.columns === 1 && isShaderSize(m.rows))
+            return `const ${name} = vec${m.rows}<f32>(${Array.from(m, floatLiteral).join(', ')});`;
+        if (!isShaderSize(m.rows) || !isShaderSize(m.columns))
+            return `// WGSL has no ${size} matrix type`;
+        return `// ${size}; the arguments are columns\nconst ${name} = mat${m.columns}x${m.rows}<f32>(\n${sourceRows(m.transpose(), floatLiteral)}\n);`;
+    } else if (format === 'latex' || format === 'mathml') {
+        return matrixToMath(m, format, formatter);
+    } else {
+        return `// ${size}, row-major\nconst ${name} = new Float32Array([\n${sourceRows(m, float32ToString)},\n]);`;
+    }
+}
+
+// LaTeX and MathML for docs. Entries are converted from the same text the diagrams show, so the
+// number format and symbolic names carry over: 1/3 becomes a fraction, a₁₂ gets a subscript, and
+// cos² θ becomes \cos^{2} \theta.
+type MathFormat = 'latex' | 'mathml';
+
+type MathToken =
+    | { kind: 'number', text: string }
+    | { kind: 'fraction', numerator: string, denominator: string }
+    | { kind: 'identifier', name: string, sub: string, sup: string }
+    | { kind: 'operator', text: string };
+
+// Part of an equation, in a highlight color or not.
+interface MathPart {
+    text: string;
+    color?: string | null;
+}
+
+const greekLetterNames = ['alpha', 'beta', 'gamma', 'delta', 'epsilon', 'zeta', 'eta', 'theta', 'iota', 'kappa', 'lambda', 'mu', 'nu', 'xi', 'omicron', 'pi', 'rho', 'varsigma', 'sigma', 'tau', 'upsilon', 'phi', 'chi', 'psi', 'omega'];
+
+// Letters LaTeX has no name for look just like Latin ones, so they're left as they are.
+function latexGreekLetter(c: string): string | null {
+    const lower = c.toLowerCase();
+    const n = lower.charCodeAt(0) - 0x3b1;
+    if (n < 0 || n >= greekLetterNames.length)
+        return null;
+
+    const name = greekLetterNames[n];
+    if (c === lower)
+        return name === 'omicron' ? 'o' : `\\${name}`;
+    const upper = `${name[0].toUpperCase()}${name.slice(1)}`;
+    return /^(Gamma|Delta|Theta|Lambda|Xi|Pi|Sigma|Upsilon|Phi|Psi|Omega)$/.test(upper) ? `\\${upper}` : c;
+}
+
+function fromSubscript(s: string): string {
+    return s.replace(/[₀-₉]/g, (d) => `${subscriptDigits.indexOf(d)}`);
+}
+
+function fromSuperscript(s: string): string {
+    return s.replace(/[⁰-⁹¹²³]/g, (d) => `${superscriptDigits.indexOf(d)}`);
+}
+
+// Subscripts past 9 have a comma between the row and column, like a₁₀,₂, which is all one name.
+function tokenizeMath(s: string): MathToken[] {
+    const tokens: MathToken[] = [];
+    for (const m of s.matchAll(/(\d*\.?\d+(?:e[-+]?\d+)?)(?:\/(\d+))?|([A-Za-zα-ωΑ-Ω][A-Za-z']*)([₀-₉]+,[₀-₉]+|[₀-₉]*)([⁰-⁹¹²³]*)|(\S)/g)) {
+        if (m[2] !== undefined)
+            tokens.push({ kind: 'fraction', numerator: m[1], denominator: m[2] });
+        else if (m[1] !== undefined)
+            tokens.push({ kind: 'number', text: m[1] });
+        else if (m[3] !== undefined)
+            tokens.push({ kind: 'identifier', name: m[3], sub: fromSubscript(m[4]), sup: fromSuperscript(m[5]) });
+        else
+            tokens.push({ kind: 'operator', text: m[6] });
+    }
+    return tokens;
+}
+
+function isMathFunction(name: string): boolean {
+    return /^(sin|cos|tan)$/.test(name);
+}
+
+function latexOperator(op: string): string {
+    const operators: { [op: string]: string } = { '−': '-', '×': '\\times', '·': '\\cdot', '≈': '\\approx', '…': '\\dots' };
+    return operators[op] ?? (/[#$%&_{}\\^~]/.test(op) ? `\\${op}` : op);
+}
+
+function tokenToLatex(t: MathToken): string {
+    if (t.kind === 'number') {
+        const e = /^(.*)e([-+]?\d+)$/.exec(t.text);
+        return e !== null ? `${e[1]} \\times 10^{${parseInt(e[2], 10)}}` : t.text;
+    } else if (t.kind === 'fraction') {
+        return `\\frac{${t.numerator}}{${t.denominator}}`;
+    } else if (t.kind === 'identifier') {
+        const greek = t.name.length === 1 ? latexGreekLetter(t.name) : null;
+        let s: string;
+        if (isMathFunction(t.name))
+            s = `\\${t.name}`;
+        else if (greek !== null)
+            s = greek;
+        else if (t.name.replace(/'+$/, '').length === 1)
+            s = t.name;
+        else
+            s = `\\mathrm{${t.name}}`;
+        if (t.sub !== '')
+            s += `_{${t.sub}}`;
+        if (t.sup !== '')
+            s += `^{${t.sup}}`;
+        return s;
+    } else {
+        return latexOperator(t.text);
+    }
+}
+
+function tokenToMathML(t: MathToken): string {
+    if (t.kind === 'number') {
+        const e = /^(.*)e([-+]?\d+)$/.exec(t.text);
+        return e !== null ? `<mn>${e[1]}</mn><mo>×</mo><msup><mn>10</mn><mn>${parseInt(e[2], 10)}</mn></msup>` : `<mn>${t.text}</mn>`;
+    } else if (t.kind === 'fraction') {
+        return `<mfrac><mn>${t.numerator}</mn><mn>${t.denominator}</mn></mfrac>`;
+    } else if (t.kind === 'identifier') {
+        const mi = `<mi>${escapeXml(t.name)}</mi>`;
+        const sub = `<mn>${t.sub}</mn>`, sup = `<mn>${t.sup}</mn>`;
+        const s = t.sub !== '' && t.sup !== '' ? `<msubsup>${mi}${sub}${sup}</msubsup>` :
+            t.sub !== '' ? `<msub>${mi}${sub}</msub>` :
+            t.sup !== '' ? `<msup>${mi}${sup}</msup>` : mi;
+        // Function application, so cos θ is read as a function of θ.
+        return isMathFunction(t.name) ? `${s}<mo>&#x2061;</mo>` : s;
+    } else {
+        return `<mo>${escapeXml(t.text === '-' ? '−' : t.text)}</mo>`;
+    }
+}
+
+// Theme colors are hex with alpha, for drawing on the diagram's background. Docs get them opaque.
+function themeHexColor(property: string): string | null {
+    const v = getComputedStyle(document.documentElement).getPropertyValue(property).trim();
+    let m = /^#([0-9a-f])([0-9a-f])([0-9a-f])[0-9a-f]?$/i.exec(v);
+    if (m !== null)
+        return `${m[1]}${m[1]}${m[2]}${m[2]}${m[3]}${m[3]}`.toUpperCase();
+    m = /^#([0-9a-f]{6})(?:[0-9a-f]{2})?$/i.exec(v);
+    return m !== null ? m[1].toUpperCase() : null;
+}
+
+function mathPartsToLatex(parts: MathPart[]): string {
+    return parts.map((p) => {
+        const s = tokenizeMath(p.text).map(tokenToLatex).join(' ');
+        return p.color ? `{\\color[HTML]{${p.color}} ${s}}` : s;
+    }).join(' ');
+}
+
+function mathPartsToMathML(parts: MathPart[]): string {
+    return parts.map((p) => {
+        const s = tokenizeMath(p.text).map(tokenToMathML).join('');
+        return p.color ? `<mrow mathcolor="#${p.color}">${s}</mrow>` : s;
+    }).join('');
+}
+
+function mathML(content: string): string {
+    return `<math xmlns="http://www.w3.org/1998/Math/MathML" display="block">\n${content}\n</math>`;
+}
+
+function matrixToLatex(m: AnyMatrix, formatter: NumberFormatter = defaultFormatter): string {
+    const rows: string[] = [];
+    for (let i = 0; i < m.rows; i++) {
+        const entries: string[] = [];
+        for (let j = 0; j < m.columns; j++)
+            entries.push(mathPartsToLatex([{ text: formatEntry(m, i, j, formatter) }]));
+        rows.push(`    ${entries.join(' & ')}`);
+    }
+    return `\\begin{bmatrix}\n${rows.join(' \\\\\n')}\n\\end{bmatrix}`;
+}
+
+function matrixToMathML(m: AnyMatrix, formatter: NumberFormatter = defaultFormatter): string {
+    const rows: string[] = [];
+    for (let i = 0; i < m.rows; i++) {
+        const entries: string[] = [];
+        for (let j = 0; j < m.columns; j++)
+            entries.push(`<mtd>${mathPartsToMathML([{ text: formatEntry(m, i, j, formatter) }])}</mtd>`);
+        rows.push(`    <mtr>${entries.join('')}</mtr>`);
+    }
+    return mathML(`<mrow>\n  <mo>[</mo>\n  <mtable>\n${rows.join('\n')}\n  </mtable>\n  <mo>]</mo>\n</mrow>`);
+}
+
+function matrixToMath(m: AnyMatrix, format: MathFormat, formatter: NumberFormatter = defaultFormatter): string {
+    return format === 'latex' ? matrixToLatex(m, formatter) : matrixToMathML(m, formatter);
+}
+
+function equationToMath(parts: MathPart[], format: MathFormat): string {
+    return format === 'latex' ? mathPartsToLatex(parts) : mathML(`<mrow>${mathPartsToMathML(parts)}</mrow>`);
+}
 
-        const p = document.createElement('div');
-        p.style.placeSelf = 'center';
-        p.style.whiteSpace = `pre`;
-        p.style.fontSize = `90%`;
-        p.style.lineHeight = '1.5em';
-        p.style.position = 'relative';
-        p.style.flexGrow = `0.5`;
-        this.elem.appendChild(p);
+function select<T extends string>(options: { value: T, label: string }[], onchange: (value: T) => void): HTMLSelectElement {
+    const elem = document.createElement('select');
+    elem.style.font = 'inherit';
+    elem.style.color = 'inherit';
+    elem.style.background = 'none';
+    elem.style.border = '2px solid currentColor';
+    elem.style.borderRadius = '0.4em';
+    for (const { value, label } of options) {
+        const option = document.createElement('option');
+        option.value = value;
+        option.textContent = label;
+        option.style.color = 'var(--foreground)';
+        option.style.backgroundColor = 'var(--background)';
+        elem.appendChild(option);
+    }
+    elem.onchange = () => { onchange(elem.value as T); };
+    return elem;
+}
 
-        p.querySelectorAll('span').forEach((elem) => {
-            elem.style.padding = `0.4em`;
+class ExportPanel {
+    public elem: HTMLElement;
+    private output: HTMLElement;
+    private matrixIndex = 0;
+    private format: SourceFormat = sourceFormats[0].format;
+
+    // Besides the matrices, the equation for the current selection can be exported.
+    constructor(private matrices: NamedMatrix[], private equation: ((format: MathFormat) => string | null) | null = null, private formatter: NumberFormatter = defaultFormatter) {
+        const details = document.createElement('details');
+        this.elem = details;
+
+        const summary = document.createElement('summary');
+        summary.textContent = `Export`;
+        summary.style.cursor = 'pointer';
+        details.appendChild(summary);
+
+        const controls = document.createElement('div');
+        controls.style.display = 'flex';
+        controls.style.gap = '1em';
+        controls.style.margin = '0.5em 0';
+        details.appendChild(controls);
+
+        const sources = matrices.map((m, i) => ({ value: `${i}`, label: m.name }));
+        if (equation !== null)
+            sources.push({ value: `${matrices.length}`, label: 'selection' });
+        if (sources.length > 1)
+            controls.appendChild(select(sources, (v) => { this.matrixIndex = parseInt(v, 10); this.update(); }));
+        controls.appendChild(select(sourceFormats.map((f) => ({ value: f.format, label: f.label })), (v) => { this.format = v; this.update(); }));
+
+        // Without clipboard access (no permission, or not a secure context), the output gets selected
+        // so it can be copied by hand.
+        const selectOutput = () => {
+            window.getSelection()?.selectAllChildren(this.output);
+            copyButton.textContent = `Selected`;
+            setTimeout(() => { copyButton.textContent = `Copy`; }, 2000);
+        };
+        const copyButton = button(`Copy`, () => {
+            this.update();
+            if (navigator.clipboard === undefined) {
+                selectOutput();
+                return;
+            }
+            navigator.clipboard.writeText(this.output.textContent!).then(() => {
+                copyButton.textContent = `Copied`;
+                setTimeout(() => { copyButton.textContent = `Copy`; }, 1000);
+            }, selectOutput);
         });
+        controls.appendChild(copyButton);
 
-        const matrix = new Matrix(4, 3);
+        this.output = document.createElement('pre');
+        this.output.style.margin = '0';
+        this.output.style.userSelect = 'all';
+        details.appendChild(this.output);
 
-        const setSelected = (i, j) => {
-            highlights.forEach((elem) => {
-                if (elem.dataset.index === `${j}`) {
-                    elem.style.backgroundColor = highlightColumn;
-                } else {
-                    elem.style.backgroundColor = 'inherit';
-                }
-            });
+        // The matrices can be edited, so don't hold on to stale output.
+        details.ontoggle = () => { this.update(); };
+        details.onpointerenter = () => { this.update(); };
+    }
+
+    public update(): void {
+        if (this.matrixIndex === this.matrices.length) {
+            this.output.textContent = this.equationSource();
+            return;
+        }
+
+        const { name, matrix } = this.matrices[this.matrixIndex];
+        this.output.textContent = exportMatrixSource(matrix, name, this.format, this.formatter);
+    }
+
+    private equationSource(): string {
+        if (this.format !== 'latex' && this.format !== 'mathml')
+            return `// The selection can only be exported as LaTeX or MathML`;
+
+        const equation = this.equation!(this.format);
+        if (equation !== null)
+            return equation;
+        return this.format === 'latex' ? `% Nothing is selected; click a cell to pin it` : `<!-- Nothing is selected; click a cell to pin it -->`;
+    }
+}
+
+// Diagrams are laid out with CSS, so to get an image of one we read back where everything ended up
+// and draw it again as SVG: rectangles for backgrounds, borders and highlights, and text where the
+// browser put it. Colors come out resolved, so the SVG doesn't depend on the page or its theme.
+// Controls like the playback buttons are left out. PNGs are that SVG drawn onto a canvas.
 
-            matrixDisplay.setColumnHighlight(j, highlightColumn);
+interface SvgImage {
+    svg: string;
+    width: number;
+    height: number;
+}
+
+function escapeXml(s: string): string {
+    return s.replace(/[&<>"]/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function isTransparent(color: string): boolean {
+    return color === 'transparent' || /^rgba\(.*,\s*0\)$/.test(color);
+}
+
+function svgNumber(n: number): string {
+    return `${Math.round(n * 100) / 100}`;
+}
+
+// The color the element is drawn on top of.
+function backgroundColorBehind(elem: HTMLElement): string {
+    for (let e: HTMLElement | null = elem; e !== null; e = e.parentElement) {
+        const color = getComputedStyle(e).backgroundColor;
+        if (!isTransparent(color))
+            return color;
+    }
+    return 'white';
+}
+
+function diagramToSvg(root: HTMLElement): SvgImage {
+    const rootStyle = getComputedStyle(root);
+    const rootRect = root.getBoundingClientRect();
+    const marginLeft = parseFloat(rootStyle.marginLeft) || 0, marginTop = parseFloat(rootStyle.marginTop) || 0;
+    const originX = rootRect.left - marginLeft, originY = rootRect.top - marginTop;
+    const width = Math.ceil(rootRect.width + marginLeft + (parseFloat(rootStyle.marginRight) || 0));
+    const height = Math.ceil(rootRect.height + marginTop + (parseFloat(rootStyle.marginBottom) || 0));
+
+    const defs: string[] = [];
+    const defIds = new Map<string, string>();
+    const body: string[] = [];
+
+    // Shared definitions, like hatching patterns, only go in once.
+    const def = (key: string, make: (id: string) => string): string => {
+        let id = defIds.get(key);
+        if (id === undefined) {
+            id = `d${defIds.size}`;
+            defIds.set(key, id);
+            defs.push(make(id));
+        }
+        return id;
+    };
+
+    const box = (r: DOMRect) => `x="${svgNumber(r.left - originX)}" y="${svgNumber(r.top - originY)}" width="${svgNumber(r.width)}" height="${svgNumber(r.height)}"`;
+
+    const writeBackground = (style: CSSStyleDeclaration, r: DOMRect, radius: string) => {
+        if (!isTransparent(style.backgroundColor))
+            body.push(`<rect ${box(r)}${radius} fill="${style.backgroundColor}"/>`);
+
+        // The only gradients we use are stripes, for padding.
+        const stripes = /repeating-linear-gradient\((-?[\d.]+)deg,\s*(rgba?\([^)]*\))/.exec(style.backgroundImage);
+        if (stripes !== null) {
+            const stops = [...style.backgroundImage.matchAll(/([\d.]+)px/g)].map((m) => parseFloat(m[1]));
+            const stripe = stops[1], period = stops[stops.length - 1];
+            const id = def(`stripes ${style.backgroundImage}`, (id) =>
+                `<pattern id="${id}" width="${svgNumber(period)}" height="${svgNumber(period)}" patternUnits="userSpaceOnUse" patternTransform="rotate(${parseFloat(stripes[1]) - 90})">` +
+                `<rect width="${svgNumber(stripe)}" height="${svgNumber(period)}" fill="${stripes[2]}"/></pattern>`);
+            body.push(`<rect ${box(r)}${radius} fill="url(#${id})"/>`);
+        }
+    };
+
+    const writeBorders = (style: CSSStyleDeclaration, r: DOMRect, radius: number) => {
+        const sides = ['top', 'right', 'bottom', 'left'].map((side) => {
+            const width = parseFloat(style.getPropertyValue(`border-${side}-width`)) || 0;
+            const color = style.getPropertyValue(`border-${side}-color`);
+            const lineStyle = style.getPropertyValue(`border-${side}-style`);
+            const visible = width > 0 && lineStyle !== 'none' && lineStyle !== 'hidden' && !isTransparent(color);
+            return { width, color, visible };
+        });
+
+        const [top, right, bottom, left] = sides;
+        if (sides.every((s) => s.visible && s.width === top.width && s.color === top.color)) {
+            const w = top.width;
+            const inset = new DOMRect(r.left + w / 2, r.top + w / 2, r.width - w, r.height - w);
+            body.push(`<rect ${box(inset)} rx="${svgNumber(Math.max(radius - w / 2, 0))}" fill="none" stroke="${top.color}" stroke-width="${svgNumber(w)}"/>`);
+            return;
+        }
+
+        // Brackets are boxes with a side missing.
+        const edges: [typeof top, DOMRect][] = [
+            [top, new DOMRect(r.left, r.top, r.width, top.width)],
+            [right, new DOMRect(r.right - right.width, r.top, right.width, r.height)],
+            [bottom, new DOMRect(r.left, r.bottom - bottom.width, r.width, bottom.width)],
+            [left, new DOMRect(r.left, r.top, left.width, r.height)],
+        ];
+        for (const [side, edge] of edges)
+            if (side.visible)
+                body.push(`<rect ${box(edge)} fill="${side.color}"/>`);
+    };
+
+    const textAttributes = (style: CSSStyleDeclaration): string => {
+        let attrs = `font-family="${escapeXml(style.fontFamily)}" font-size="${style.fontSize}" font-weight="${style.fontWeight}" font-style="${style.fontStyle}" fill="${style.color}"`;
+
+        const strokeWidth = parseFloat(style.getPropertyValue('-webkit-text-stroke-width')) || 0;
+        if (strokeWidth > 0)
+            attrs += ` stroke="${style.getPropertyValue('-webkit-text-stroke-color')}" stroke-width="${svgNumber(strokeWidth)}" stroke-linejoin="round" paint-order="stroke"`;
+
+        // Glows around selected text.
+        const shadow = /^(rgba?\([^)]*\))\s+(-?[\d.]+)px\s+(-?[\d.]+)px\s+([\d.]+)px/.exec(style.textShadow);
+        if (shadow !== null && !isTransparent(shadow[1])) {
+            const [, color, dx, dy, blur] = shadow;
+            const id = def(`shadow ${style.textShadow}`, (id) =>
+                `<filter id="${id}" x="-50%" y="-50%" width="200%" height="200%">` +
+                `<feDropShadow dx="${dx}" dy="${dy}" stdDeviation="${svgNumber(parseFloat(blur) / 2)}" flood-color="${color}"/></filter>`);
+            attrs += ` filter="url(#${id})"`;
+        }
+
+        return attrs;
+    };
+
+    // Text can wrap, so each line goes where the browser put it, sized to match exactly.
+    const writeText = (node: Text, style: CSSStyleDeclaration) => {
+        const range = document.createRange();
+        const rangeRect = (start: number, end: number) => {
+            range.setStart(node, start);
+            range.setEnd(node, end);
+            return range.getBoundingClientRect();
         };
 
-        const highlights: HTMLElement[] = [];
-        const createHighlight = (index: number, left: number, top: number, width: number, edge: 'left' | 'right' | null = null): HTMLElement => {
-            const h = document.createElement('div');
-            h.style.position = 'absolute';
-            h.style.left = `${left}ch`;
-            h.style.top = `${top}lh`;
-            h.style.width = `${width}ch`;
-            h.style.height = `1lh`;
-            h.style.padding = `0.2em`;
-            h.style.marginTop = `-0.1em`;
-            h.style.marginLeft = `-0.2em`;
-            h.style.borderRadius = `0.4em`;
-            if (edge === 'left') {
-                h.style.borderTopLeftRadius = '0';
-                h.style.borderBottomLeftRadius = '0';
-            } else if (edge === 'right') {
-                h.style.borderTopRightRadius = '0';
-                h.style.borderBottomRightRadius = '0';
+        const lines: { start: number, end: number, rect: DOMRect }[] = [];
+        for (const word of node.data.matchAll(/\S+/g)) {
+            const start = word.index!, end = start + word[0].length;
+            const rect = rangeRect(start, end);
+            const line = lines[lines.length - 1];
+            if (line !== undefined && Math.abs(line.rect.top - rect.top) < 1)
+                line.end = end;
+            else
+                lines.push({ start, end, rect });
+        }
+
+        const attrs = textAttributes(style);
+        for (const line of lines) {
+            const r = rangeRect(line.start, line.end);
+            const text = escapeXml(node.data.slice(line.start, line.end));
+            body.push(`<text x="${svgNumber(r.left - originX)}" y="${svgNumber(r.top + r.height / 2 - originY)}" dominant-baseline="central" textLength="${svgNumber(r.width)}" lengthAdjust="spacingAndGlyphs" xml:space="preserve" ${attrs}>${text}</text>`);
+        }
+    };
+
+    const visit = (elem: HTMLElement) => {
+        if (elem instanceof HTMLButtonElement || elem instanceof HTMLSelectElement || elem instanceof HTMLInputElement || elem instanceof HTMLTextAreaElement)
+            return;
+
+        const style = getComputedStyle(elem);
+        if (style.display === 'none' || style.visibility === 'hidden')
+            return;
+
+        const opacity = parseFloat(style.opacity);
+        if (opacity < 1)
+            body.push(`<g opacity="${opacity}">`);
+
+        if (style.display !== 'contents') {
+            const r = elem.getBoundingClientRect();
+            if (elem instanceof HTMLCanvasElement) {
+                body.push(`<image ${box(r)} href="${elem.toDataURL()}"/>`);
+            } else {
+                const radius = parseFloat(style.borderTopLeftRadius) || 0;
+                writeBackground(style, r, radius > 0 ? ` rx="${svgNumber(radius)}"` : '');
+                writeBorders(style, r, radius);
             }
-            h.dataset.index = `${index}`;
-            h.onmouseover = () => { setSelected(-1, index); };
-            h.onmouseout = () => { setSelected(-1, -1); };
-            highlights.push(h);
-            p.appendChild(h);
-            return h;
-        };
+        }
 
-        createHighlight(0, 4, 2, 8);
-        createHighlight(1, 13, 2, 2 - 0.2, 'right');
-        createHighlight(1, 4, 3, 5, 'left');
-        createHighlight(2, 10, 3, 5 - 0.2, 'right');
-        createHighlight(2, 4, 4, 2, 'left');
-        createHighlight(3, 7, 4, 11);
+        for (const child of elem.childNodes) {
+            if (child instanceof Text)
+                writeText(child, style);
+            else if (child instanceof HTMLElement)
+                visit(child);
+        }
 
-        const code = document.createElement('div');
-        code.textContent = `// column-major packing\nfloat m[] = {\n    1, 2, 3, 4,\n    5, 6, 7, 8,\n    9, 10, 11, 12,\n};`;
-        code.style.isolation = `isolate`;
-        code.style.pointerEvents = `none`;
-        p.appendChild(code);
+        if (opacity < 1)
+            body.push(`</g>`);
+    };
 
-        this.elem.appendChild(textDiv(`=`));
+    visit(root);
 
-        for (let i = 0; i < matrix.length; i++)
-            matrix[i] = 1 + i;
-        const matrixDisplay = new MatrixDisplay(matrix.transpose());
-        matrixDisplay.onmousehover = setSelected;
-        matrixDisplay.elem.style.flexGrow = `1`;
-        this.elem.appendChild(matrixDisplay.elem);
+    const svg = [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+        ...(defs.length > 0 ? [`<defs>`, ...defs, `</defs>`] : []),
+        `<rect width="${width}" height="${height}" fill="${backgroundColorBehind(root)}"/>`,
+        ...body,
+        `</svg>`,
+    ].join('\n');
+    return { svg, width, height };
+}
+
+function svgToPng(image: SvgImage, scale: number): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            // A tainted canvas throws here rather than failing the promise, so pass that on.
+            try {
+                const canvas = document.createElement('canvas');
+                canvas.width = Math.ceil(image.width * scale);
+                canvas.height = Math.ceil(image.height * scale);
+                const ctx = canvas.getContext('2d')!;
+                ctx.scale(scale, scale);
+                ctx.drawImage(img, 0, 0, image.width, image.height);
+                canvas.toBlob((blob) => blob !== null ? resolve(blob) : reject(new Error(`Could not encode the PNG`)), 'image/png');
+            } catch (e) {
+                reject(e);
+            }
+        };
+        img.onerror = () => { reject(new Error(`Could not draw the SVG`)); };
+        img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(image.svg)}`;
+    });
+}
+
+function downloadBlob(blob: Blob, fileName: string): void {
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(blob);
+    a.download = fileName;
+    a.click();
+    setTimeout(() => { URL.revokeObjectURL(a.href); }, 1000);
+}
+
+// 'svg', or a PNG scale.
+type ImageFormat = 'svg' | '1' | '2' | '3' | '4';
+
+function saveImage(image: SvgImage, format: ImageFormat, fileName: string): Promise<void> {
+    if (format === 'svg') {
+        downloadBlob(new Blob([image.svg], { type: 'image/svg+xml' }), `${fileName}.svg`);
+        return Promise.resolve();
     }
+
+    return svgToPng(image, parseInt(format, 10)).then((blob) => { downloadBlob(blob, `${fileName}.png`); });
 }
 
-class Diagram9 {
+class ImageExportPanel {
     public elem: HTMLElement;
+    private format: ImageFormat = 'svg';
+
+    constructor(diagram: Base, fileName: string) {
+        const details = document.createElement('details');
+        this.elem = details;
+
+        const summary = document.createElement('summary');
+        summary.textContent = `Image`;
+        summary.style.cursor = 'pointer';
+        details.appendChild(summary);
+
+        const controls = document.createElement('div');
+        controls.style.display = 'flex';
+        controls.style.gap = '1em';
+        controls.style.margin = '0.5em 0';
+        details.appendChild(controls);
+
+        controls.appendChild(select<ImageFormat>([
+            { value: 'svg', label: 'SVG' },
+            { value: '1', label: 'PNG 1×' },
+            { value: '2', label: 'PNG 2×' },
+            { value: '3', label: 'PNG 3×' },
+            { value: '4', label: 'PNG 4×' },
+        ], (v) => { this.format = v; }));
+
+        // PNGs go through an image and a canvas, either of which can fail.
+        const errorLine = document.createElement('div');
+        errorLine.style.color = 'var(--error)';
+        errorLine.setAttribute('role', 'alert');
+        errorLine.hidden = true;
+        const failed = (e: unknown) => {
+            errorLine.textContent = `Couldn't save the image: ${e instanceof Error ? e.message : e}`;
+            errorLine.hidden = false;
+        };
 
-    constructor() {
-        this.elem = document.createElement('div');
-        this.elem.style.display = 'flex';
-        this.elem.style.margin = `4em`;
+        // Whatever the diagram is showing right now, pinned selection and all.
+        controls.appendChild(button(`Save`, () => {
+            errorLine.hidden = true;
+            saveImage(diagramToSvg(diagram.elem), this.format, fileName).catch(failed);
+        }));
+
+        if (diagram.frames !== undefined) {
+            const frames = diagram.frames;
+            controls.appendChild(button(`Save frames`, () => {
+                // Take every snapshot first; the diagram only holds each state for a moment.
+                const images: [string, SvgImage][] = [];
+                for (const name of frames())
+                    images.push([name, diagramToSvg(diagram.elem)]);
+
+                // The first failure skips the rest.
+                errorLine.hidden = true;
+                let saved = Promise.resolve();
+                for (const [name, image] of images)
+                    saved = saved.then(() => saveImage(image, this.format, `${fileName}-${name}`));
+                saved.catch(failed);
+            }));
+        }
 
-        const matrix = new Matrix(3, 4);
-        const d = [1, 7, 9, 1, 4, 1, 6, 0, 3, 8, 2, 3];
-        matrix.set(d);
+        details.appendChild(errorLine);
+    }
+}
 
-        const matrixDisplay = new MatrixDisplay(matrix);
-        matrixDisplay.elem.style.flexGrow = `1`;
+// A host page can drive an embedded diagram with postMessage. Every message, in both directions,
+// is an object with protocol: 'matrix-diagrams' and a type; anything else is ignored.
+//
+// The host starts by sending connect. Only messages from the parent window are listened to, and
+// only when they come from the embedding page's origin (per document.referrer) or one listed in the
+// iframe's ?origin= parameter (comma-separated). Replies go back to the origin that connected.
+//
+//   frame.contentWindow.postMessage({ protocol: 'matrix-diagrams', type: 'connect', autoSize: true }, diagramOrigin);
+//
+// Host to diagram:
+//   connect { autoSize?: boolean }
+//       Answered with ready. With autoSize, the diagram shrinks to fit its content and sends resize
+//       whenever its height changes, so the host can size the iframe to match.
+//   select-diagram { diagram: string }
+//       Anything the URL hash takes, like "3", "mul/a=2x3/b=3x2" or "2/r1c2".
+//   set-matrices { kind: string, matrices: { a: { rows, columns, values? }, ... }, options?: { [key]: string } }
+//       Shows a diagram of that kind built from the given matrices. Values are numbers, or strings like
+//       "cos θ", in row-major order. Options are the other hash keys, like { format: 'fraction' }.
+//   set-selection { row: number | null, column: number | null }
+//       Pins a row, column or cell, counting from 0. null leaves that part out.
+//   clear-selection {}
+//
+// Diagram to host:
+//   ready { diagrams: number, diagram: string }
+//   diagram { diagram: string }
+//       The diagram changed, from a message or from the reader.
+//   hover { row: number | null, column: number | null }
+//   selection { row: number | null, column: number | null }
+//       The selection was pinned or unpinned.
+//   resize { height: number }
+//   error { message: string }
+//       A message couldn't be applied.
+//
+// Rows and columns are the same ones the pin hash uses: C's for multiplications, A's for the rest.
+
+const embedProtocol = 'matrix-diagrams';
+
+class EmbedMessageError extends Error {
+}
 
-        this.elem.appendChild(matrixDisplay.elem);
+function embedOrigins(): Set<string> {
+    const origins = new Set<string>();
+    if (document.referrer !== '')
+        origins.add(new URL(document.referrer).origin);
+
+    const param = new URLSearchParams(window.location.search).get('origin');
+    if (param !== null) {
+        for (const s of param.split(',')) {
+            try {
+                origins.add(new URL(s).origin);
+            } catch (e) {
+                // Not a URL; no page can have it as its origin.
+            }
+        }
+    }
+    return origins;
+}
+
+function embedIndex(message: { [key: string]: unknown }, key: string): number {
+    const v = message[key];
+    if (v === null || v === undefined)
+        return -1;
+    if (typeof v !== 'number' || !Number.isInteger(v) || v < 0)
+        throw new EmbedMessageError(`"${key}" should be a whole number from 0 or null`);
+    return v;
+}
+
+function embedIndexOut(n: number): number | null {
+    return n >= 0 ? n : null;
+}
+
+// Turns set-matrices into a hash spec, so it gets exactly the same checks as a link would.
+function embedMatricesToHash(message: { [key: string]: unknown }): string {
+    const { kind, matrices, options } = message;
+    if (typeof kind !== 'string' || !/^[a-z]+$/.test(kind))
+        throw new EmbedMessageError(`"kind" should be a diagram kind like "mul"`);
+    if (!isRecord(matrices))
+        throw new EmbedMessageError(`"matrices" should be an object of matrices by name`);
+
+    const parts = [kind];
+    for (const name of Object.keys(matrices)) {
+        if (!/^[a-h]$/.test(name))
+            throw new EmbedMessageError(`Matrices are named a to h, not "${name}"`);
+
+        const m = matrices[name];
+        const { rows, columns, values } = isRecord(m) ? m : { rows: undefined, columns: undefined, values: undefined };
+        if (!Number.isInteger(rows) || !Number.isInteger(columns))
+            throw new EmbedMessageError(`Matrix ${name} needs whole numbers of rows and columns`);
+
+        let part = `${name}=${rows}x${columns}`;
+        if (values !== undefined) {
+            if (!Array.isArray(values))
+                throw new EmbedMessageError(`The values of matrix ${name} should be an array`);
+            const strings = values.map((v: unknown) => {
+                if (typeof v === 'number' && Number.isFinite(v))
+                    return `${v}`;
+                if (typeof v === 'string' && /^[^/,%]+$/.test(v))
+                    return v;
+                throw new EmbedMessageError(`Matrix ${name} has a value that is not a number or an expression`);
+            });
+            part += `:${strings.join(',')}`;
+        }
+        parts.push(part);
+    }
+
+    if (options !== undefined) {
+        if (!isRecord(options))
+            throw new EmbedMessageError(`"options" should be an object`);
+        for (const key of Object.keys(options)) {
+            const v = options[key];
+            if (!/^[a-z]+$/.test(key) || /^[a-h]$/.test(key) || typeof v !== 'string' || !/^[\w:.-]+$/.test(v))
+                throw new EmbedMessageError(`Option "${key}" is not a key with a plain string value`);
+            parts.push(`${key}=${v}`);
+        }
+    }
+
+    return parts.join('/');
+}
+
+class EmbedConnection {
+    private origins = embedOrigins();
+    private hostOrigin: string | null = null;
+    private resizeObserver: ResizeObserver | null = null;
+
+    constructor(private main: Main) {
+        window.addEventListener('message', (e) => this.received(e));
+    }
+
+    private received(e: MessageEvent): void {
+        if (e.source !== window.parent || !this.origins.has(e.origin))
+            return;
+
+        const message: unknown = e.data;
+        if (!isRecord(message) || message.protocol !== embedProtocol)
+            return;
+
+        if (message.type === 'connect') {
+            this.hostOrigin = e.origin;
+            if (message.autoSize === true)
+                this.startAutoSize();
+            this.post({ type: 'ready', diagrams: this.main.diagramCount(), diagram: this.main.currentHash() });
+            return;
+        }
+
+        // Everything else needs a connection, so there's somewhere to send replies.
+        if (e.origin !== this.hostOrigin)
+            return;
+
+        try {
+            this.handle(message);
+        } catch (err) {
+            if (!(err instanceof EmbedMessageError))
+                throw err;
+            this.post({ type: 'error', message: err.message });
+        }
+    }
+
+    private handle(message: { [key: string]: unknown }): void {
+        if (message.type === 'select-diagram') {
+            if (typeof message.diagram !== 'string')
+                throw new EmbedMessageError(`"diagram" should be a string`);
+            this.show(message.diagram);
+        } else if (message.type === 'set-matrices') {
+            this.show(embedMatricesToHash(message));
+        } else if (message.type === 'set-selection') {
+            const i = embedIndex(message, 'row'), j = embedIndex(message, 'column');
+            const selection = this.selection();
+            if (!selection.pin(i, j))
+                throw new EmbedMessageError(`This diagram has nothing at row ${embedIndexOut(i)}, column ${embedIndexOut(j)}`);
+        } else if (message.type === 'clear-selection') {
+            this.selection().unpin();
+        } else {
+            throw new EmbedMessageError(`Unknown message type "${message.type}"`);
+        }
+    }
+
+    private show(diagram: string): void {
+        if (!this.main.show(diagram))
+            throw new EmbedMessageError(`There is no diagram "${diagram}"`);
+        if (this.main.current instanceof ErrorDiagram)
+            throw new EmbedMessageError(this.main.current.message);
+    }
+
+    private selection(): HoverSelection {
+        const current = this.main.current;
+        if (current === null || current.selection === undefined)
+            throw new EmbedMessageError(`This diagram has nothing to select`);
+        return current.selection;
+    }
+
+    private startAutoSize(): void {
+        if (this.resizeObserver !== null)
+            return;
+
+        // Until the host resizes the frame, the page shows below the diagram.
+        document.documentElement.style.backgroundColor = 'var(--background)';
+        this.main.elem.style.minHeight = '0';
+        this.resizeObserver = new ResizeObserver(() => {
+            this.post({ type: 'resize', height: Math.ceil(this.main.elem.getBoundingClientRect().height) });
+        });
+        this.resizeObserver.observe(this.main.elem);
+    }
+
+    private post(message: object): void {
+        if (this.hostOrigin !== null)
+            window.parent.postMessage({ protocol: embedProtocol, ...message }, this.hostOrigin);
+    }
+
+    public diagramChanged(diagram: string): void {
+        this.post({ type: 'diagram', diagram });
+    }
+
+    public hovered(i: number, j: number): void {
+        this.post({ type: 'hover', row: embedIndexOut(i), column: embedIndexOut(j) });
+    }
+
+    public selectionChanged(pinned: [number, number] | null): void {
+        const [i, j] = pinned ?? [-1, -1];
+        this.post({ type: 'selection', row: embedIndexOut(i), column: embedIndexOut(j) });
+    }
+}
+
+// Previous and next, where we are, and a table of contents, for the top-level page.
+class Navigation {
+    public elem: HTMLElement;
+    private previousButton: HTMLButtonElement;
+    private nextButton: HTMLButtonElement;
+    private position: HTMLElement;
+    private contentsDetails: HTMLDetailsElement;
+    private contents: HTMLElement;
+
+    constructor(go: (delta: number) => void, present: () => void) {
+        this.elem = document.createElement('nav');
+        this.elem.setAttribute('aria-label', 'Diagrams');
+        this.elem.style.display = 'flex';
+        this.elem.style.alignItems = 'start';
+        this.elem.style.gap = '1em';
+        this.elem.style.margin = `1em 2em 0`;
+        this.elem.style.fontSize = '60%';
+
+        this.previousButton = button(`‹ Previous`, () => { go(-1); });
+        this.elem.appendChild(this.previousButton);
+
+        this.position = document.createElement('div');
+        this.position.style.alignSelf = 'center';
+        this.elem.appendChild(this.position);
+
+        this.nextButton = button(`Next ›`, () => { go(1); });
+        this.elem.appendChild(this.nextButton);
+
+        this.contentsDetails = document.createElement('details');
+        this.contentsDetails.style.alignSelf = 'center';
+        const summary = document.createElement('summary');
+        summary.textContent = `Contents`;
+        summary.style.cursor = 'pointer';
+        this.contentsDetails.appendChild(summary);
+        this.contents = document.createElement('ol');
+        this.contents.style.margin = '0.5em 0';
+        this.contentsDetails.appendChild(this.contents);
+        this.elem.appendChild(this.contentsDetails);
+
+        const presentButton = button(`Present`, present);
+        presentButton.title = `Full screen, without the controls (P)`;
+        presentButton.style.marginLeft = 'auto';
+        this.elem.appendChild(presentButton);
+    }
+
+    // index is null for diagrams that came from a hash spec rather than the list.
+    public update(definitions: DiagramDefinition[], index: number | null): void {
+        this.position.textContent = `${index !== null ? index + 1 : '–'} / ${definitions.length}`;
+        this.previousButton.disabled = index === null || index === 0;
+        this.nextButton.disabled = index === definitions.length - 1;
+
+        removeAll(this.contents);
+        definitions.forEach((definition, i) => {
+            const item = document.createElement('li');
+            const link = document.createElement('a');
+            link.href = `#${i + 1}`;
+            link.textContent = definition.title ?? `Diagram ${i + 1}`;
+            link.style.color = 'inherit';
+            if (i === index) {
+                link.setAttribute('aria-current', 'page');
+                link.style.fontWeight = 'bold';
+            }
+            item.appendChild(link);
+            this.contents.appendChild(item);
+        });
+        this.contentsDetails.open = false;
     }
 }
 
-type Factory = new () => Base;
+// Whether keys typed here are text rather than shortcuts.
+function isTextEntry(target: EventTarget | null): boolean {
+    return target instanceof HTMLElement && (target.isContentEditable || target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement);
+}
 
 class Main {
     public elem: HTMLElement;
-    private factory: Factory[] = [];
+    private definitions: DiagramDefinition[] = [];
+    public current: Base | null = null;
+    private hashBase = '';
+    // The numbered diagram being shown, which it stays once it's been changed.
+    private index: number | null = null;
+    private themeName: string | null = null;
+    private embed: EmbedConnection | null = null;
+    private navigation: Navigation | null = null;
+    // Controls that presenter mode hides.
+    private chrome: HTMLElement[] = [];
+    private presenting = false;
 
     constructor() {
+        // ?theme=light picks a theme; otherwise we follow the system's light or dark preference.
+        this.themeName = new URLSearchParams(window.location.search).get('theme');
+        const prefersLight = window.matchMedia('(prefers-color-scheme: light)');
+        prefersLight.addEventListener('change', () => this.updateTheme());
+        this.updateTheme();
+
         this.elem = document.createElement('div');
-        this.elem.style.backgroundColor = '#445';
+        this.elem.style.backgroundColor = 'var(--background)';
         this.elem.style.font = '18pt monospace';
-        this.elem.style.color = 'white';
+        this.elem.style.color = 'var(--foreground)';
         this.elem.style.display = 'grid';
         this.elem.style.minHeight = `100vh`;
 
         document.body.appendChild(this.elem);
 
-        this.factory.push(Diagram1);
-        this.factory.push(Diagram2);
-        this.factory.push(Diagram3);
-        this.factory.push(Diagram4);
-        this.factory.push(Diagram5);
-        this.factory.push(Diagram6);
-        this.factory.push(Diagram7);
-        this.factory.push(Diagram8);
-        this.factory.push(Diagram9);
-
         window.onhashchange = () => this.setFromHash();
 
         if (window.top === window) {
+            // ?nav=off leaves out the controls, for pages that link to one diagram at a time.
+            if (new URLSearchParams(window.location.search).get('nav') !== 'off')
+                this.navigation = new Navigation((delta) => this.go(delta), () => this.setPresenting(!this.presenting));
+
             document.addEventListener('keydown', (e) => {
-                for (let i = 0; i < this.factory.length; i++) {
+                if (isTextEntry(e.target))
+                    return;
+
+                for (let i = 0; i < this.definitions.length; i++) {
                     if (e.code === `Digit${i + 1}`)
                         window.location.hash = `#${i + 1}`;
                 }
             }, { capture: true });
+
+            // Arrows are left to anything on the page that uses them, like moving between a matrix's
+            // cells. PageUp and PageDown always work, since they're what presentation clickers send.
+            document.addEventListener('keydown', (e) => {
+                if (e.defaultPrevented || e.altKey || e.ctrlKey || e.metaKey || isTextEntry(e.target))
+                    return;
+
+                const inWidget = e.target instanceof Element && e.target.closest('[role=grid], [role=radiogroup]') !== null;
+                if (e.key === 'PageUp' || (e.key === 'ArrowLeft' && !inWidget))
+                    this.go(-1);
+                else if (e.key === 'PageDown' || (e.key === 'ArrowRight' && !inWidget))
+                    this.go(1);
+                else if (e.key === 'p' || e.key === 'P')
+                    this.setPresenting(!this.presenting);
+                else
+                    return;
+                e.preventDefault();
+            });
+
+            // Leaving full screen, with Escape or otherwise, ends presenting too.
+            document.addEventListener('fullscreenchange', () => {
+                if (document.fullscreenElement === null && this.presenting)
+                    this.setPresenting(false);
+            });
+        }
+
+        if (window.parent !== window)
+            this.embed = new EmbedConnection(this);
+
+        document.addEventListener('keydown', (e) => {
+            if (e.key === 'Escape' && !e.defaultPrevented && this.current !== null && this.current.selection !== undefined)
+                this.current.selection.unpin();
+        });
+
+        const definitionsUrl = new URLSearchParams(window.location.search).get('diagrams');
+        if (definitionsUrl !== null) {
+            loadDiagramDefinitions(definitionsUrl).then((definitions) => {
+                this.setDefinitions(definitions);
+            }, (e) => {
+                this.setDiagram(new ErrorDiagram(e.message), '');
+            });
+        } else {
+            this.setDefinitions(checkDiagramDefinitions(bundledDiagrams));
         }
+    }
 
+    private setDefinitions(definitions: DiagramDefinition[]): void {
+        this.definitions = definitions;
         if (!this.setFromHash())
-            this.set(this.factory[0]);
+            this.set(0);
     }
 
-    private setFromHash(): boolean {
-        const hash = window.location.hash.slice(1);
-        const idx = parseInt(hash, 10) - 1;
-        if (this.factory[idx] !== undefined) {
-            this.set(this.factory[idx]);
-            return true;
+    // For the console: main.latex('a') for a matrix of the current diagram, main.latex(m) for any
+    // matrix, or main.latex() for the equation behind the current selection. main.mathml() likewise.
+    public latex(which?: string | AnyMatrix): string | null {
+        return this.math('latex', which);
+    }
+
+    public mathml(which?: string | AnyMatrix): string | null {
+        return this.math('mathml', which);
+    }
+
+    private math(format: MathFormat, which?: string | AnyMatrix): string | null {
+        const current = this.current;
+        if (current === null)
+            return null;
+
+        if (which === undefined)
+            return current.equation !== undefined ? current.equation(format) : null;
+
+        const formatter = current.formatter ?? defaultFormatter;
+        if (typeof which !== 'string')
+            return matrixToMath(which, format, formatter);
+
+        const named = (current.matrices ?? []).find((m) => m.name === which.toLowerCase());
+        return named !== undefined ? matrixToMath(named.matrix, format, formatter) : null;
+    }
+
+    // Moves through the numbered diagrams. From a hash spec, either way goes to the first.
+    public go(delta: number): void {
+        const index = this.index;
+        const next = index === null ? 0 : Math.min(Math.max(index + delta, 0), this.definitions.length - 1);
+        if (next !== index)
+            window.location.hash = `#${next + 1}`;
+    }
+
+    // Hides the controls and goes full screen, if the browser lets us.
+    public setPresenting(presenting: boolean): void {
+        this.presenting = presenting;
+        this.layout();
+
+        const root = document.documentElement;
+        if (presenting && document.fullscreenElement === null && root.requestFullscreen !== undefined)
+            root.requestFullscreen().catch(() => { /* Presenting in a window is fine too. */ });
+        else if (!presenting && document.fullscreenElement !== null)
+            document.exitFullscreen();
+    }
+
+    // The diagram takes up whatever room the rest doesn't.
+    private layout(): void {
+        for (const elem of this.chrome)
+            elem.hidden = this.presenting;
+
+        const rows: string[] = [];
+        for (const child of this.elem.children)
+            if (!(child as HTMLElement).hidden)
+                rows.push(child === this.current!.elem ? '1fr' : 'auto');
+        this.elem.style.gridTemplateRows = rows.join(' ');
+    }
+
+    public setTheme(name: string | null): void {
+        this.themeName = name;
+        this.updateTheme();
+    }
+
+    private updateTheme(): void {
+        let theme = this.themeName !== null && Object.hasOwn(themes, this.themeName) ? themes[this.themeName] : undefined;
+        if (theme === undefined)
+            theme = window.matchMedia('(prefers-color-scheme: light)').matches ? themes['light'] : themes['dark'];
+        applyTheme(theme);
+        if (this.current !== null && this.current.retheme !== undefined)
+            this.current.retheme();
+    }
+
+    public diagramCount(): number {
+        return this.definitions.length;
+    }
+
+    public currentHash(): string {
+        try {
+            return decodeHash(this.hashBase);
+        } catch (e) {
+            // An error diagram's hash can be malformed, and is passed on as it is.
+            return this.hashBase;
         }
+    }
+
+    // Shows what a hash would, and puts it in the URL. Returns false if it names no diagram.
+    public show(hash: string): boolean {
+        const old = window.location.hash;
+        history.replaceState(null, '', `#${hash}`);
+        if (this.setFromHash())
+            return true;
+        history.replaceState(null, '', old);
         return false;
     }
 
-    public set(factory: Factory): void {
+    // A trailing /r2c3 (1-based, either part optional) pins that selection, so shared links open on it.
+    private setFromHash(): boolean {
+        let hash = window.location.hash.slice(1);
+        let pin: [number, number] | null = null;
+        const pinMatch = /\/(?:r(\d+))?(?:c(\d+))?$/.exec(hash);
+        if (pinMatch !== null && (pinMatch[1] !== undefined || pinMatch[2] !== undefined)) {
+            const index = (s: string | undefined) => s !== undefined ? parseInt(s, 10) - 1 : -1;
+            pin = [index(pinMatch[1]), index(pinMatch[2])];
+            hash = hash.slice(0, pinMatch.index);
+        }
+
+        if (hash === '')
+            return false;
+
+        if (/^\d+$/.test(hash)) {
+            const idx = parseInt(hash, 10) - 1;
+            if (this.definitions[idx] === undefined)
+                return false;
+            this.set(idx);
+        } else {
+            try {
+                this.setDiagram(createDiagramFromSpec(parseDiagramSpec(decodeHash(hash))), hash);
+            } catch (e) {
+                if (!(e instanceof DiagramSpecError))
+                    throw e;
+                this.setDiagram(new ErrorDiagram(e.message), hash);
+            }
+        }
+
+        if (pin !== null && this.current!.selection !== undefined)
+            this.current!.selection.pin(pin[0], pin[1]);
+        return true;
+    }
+
+    public set(index: number): void {
+        this.setDiagram(createDiagramFromSpec(parseDiagramDefinition(this.definitions[index])), `${index + 1}`);
+    }
+
+    private setDiagram(b: Base, hashBase: string): void {
         removeAll(this.elem);
-        const b = new factory();
+        this.chrome = [];
+        this.current = b;
+        this.hashBase = hashBase;
+        this.index = /^\d+$/.test(hashBase) ? parseInt(hashBase, 10) - 1 : null;
+
+        // Embedded copies stay clean.
+        const topLevel = window.top === window;
+        const index = this.index;
+        const definition = index !== null ? this.definitions[index] : undefined;
+
+        if (topLevel && this.navigation !== null) {
+            this.navigation.update(this.definitions, index);
+            this.elem.appendChild(this.navigation.elem);
+            this.chrome.push(this.navigation.elem);
+        }
+
+        if (topLevel && definition !== undefined && definition.title !== undefined) {
+            const title = document.createElement('h1');
+            title.textContent = definition.title;
+            title.style.font = 'inherit';
+            title.style.textAlign = 'center';
+            title.style.margin = `1em 2em 0`;
+            this.elem.appendChild(title);
+        }
+
         this.elem.appendChild(b.elem);
+
+        if (topLevel && definition !== undefined && definition.caption !== undefined) {
+            const caption = document.createElement('p');
+            caption.textContent = definition.caption;
+            caption.style.fontSize = '70%';
+            caption.style.textAlign = 'center';
+            caption.style.margin = `0 2em 1em`;
+            this.elem.appendChild(caption);
+        }
+
+        let panels = topLevel ? this.createPanels(b) : null;
+        if (panels !== null) {
+            this.elem.appendChild(panels);
+            this.chrome.push(panels);
+        }
+
+        this.layout();
+        this.hookSelection(b);
+
+        // The diagram has been rebuilt from different matrices, so whatever was made from the old
+        // ones needs doing again, and links should be to what it shows now.
+        b.onchange = () => {
+            const hash = b.hash !== undefined ? b.hash() : null;
+            if (hash !== null) {
+                this.hashBase = hash;
+                this.updatePinHash();
+                if (this.embed !== null)
+                    this.embed.diagramChanged(this.currentHash());
+            }
+
+            if (panels !== null) {
+                const newPanels = this.createPanels(b);
+                panels.replaceWith(newPanels);
+                this.chrome[this.chrome.indexOf(panels)] = newPanels;
+                panels = newPanels;
+                this.layout();
+            }
+            this.hookSelection(b);
+        };
+
+        if (this.embed !== null)
+            this.embed.diagramChanged(this.currentHash());
+    }
+
+    private createPanels(b: Base): HTMLElement {
+        const panels = document.createElement('div');
+        panels.style.display = 'flex';
+        panels.style.alignItems = 'start';
+        panels.style.gap = '2em';
+        panels.style.margin = `0 2em 1em`;
+        panels.style.fontSize = '60%';
+        panels.style.alignSelf = 'end';
+        const matrices = b.matrices ?? [];
+        if (matrices.length > 0 || b.equation !== undefined)
+            panels.appendChild(new ExportPanel(matrices, b.equation ?? null, b.formatter).elem);
+        panels.appendChild(new ImageExportPanel(b, `diagram-${/^\w+/.exec(this.hashBase)?.[0] ?? 'export'}`).elem);
+        return panels;
+    }
+
+    private hookSelection(b: Base): void {
+        if (b.selection === undefined)
+            return;
+
+        const selection = b.selection;
+        selection.onpinchange = () => {
+            this.updatePinHash();
+            if (this.embed !== null)
+                this.embed.selectionChanged(selection.pinned);
+        };
+        selection.onhover = (i, j) => {
+            if (this.embed !== null)
+                this.embed.hovered(i, j);
+        };
+    }
+
+    private updatePinHash(): void {
+        const pinned = this.current!.selection?.pinned ?? null;
+        let suffix = '';
+        if (pinned !== null) {
+            suffix += '/';
+            if (pinned[0] >= 0)
+                suffix += `r${pinned[0] + 1}`;
+            if (pinned[1] >= 0)
+                suffix += `c${pinned[1] + 1}`;
+        }
+
+        // Don't go through onhashchange; the diagram is already showing the right thing.
+        history.replaceState(null, '', `#${this.hashBase}${suffix}`);
     }
 }
 